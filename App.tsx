@@ -3,10 +3,40 @@ import React, { useState, useCallback, useEffect, useRef } from 'react';
 import MindMapCanvas from './components/MindMapCanvas';
 import GenerateModal from './components/GenerateModal';
 import PropertiesPanel from './components/PropertiesPanel';
-import { MindMapNode, AppStatus, LayoutDirection, MindMapData, SecondaryLink } from './types';
-import { generateMindMapFromText } from './services/gemini';
-import { applyAutoLayout } from './utils/layout';
-import { Plus, Wand2, Download, Upload, RotateCcw, Undo2, Redo2, Layout, Sparkles } from 'lucide-react';
+import LinkSuggestionsModal from './components/LinkSuggestionsModal';
+import LibrarySidebar from './components/LibrarySidebar';
+import ExportMenu from './components/ExportMenu';
+import ImageExportModal from './components/ImageExportModal';
+import CollabMenu from './components/CollabMenu';
+import SharedMapViewer from './components/SharedMapViewer';
+import HistoryPanel from './components/HistoryPanel';
+import LayoutMenu from './components/LayoutMenu';
+import { MindMapNode, NodeStyle, AppStatus, LayoutKind, LayoutSpacing, LayoutOptions, MindMapData, SecondaryLink, AIProviderSettings, GenerationMode, GenerationOptions, SourceDocument, ChunkProgress, StoredMap, Collaborator, CollabStatus } from './types';
+import { streamMindMapFromText, expandNodeWithAI, suggestLinksWithAI, GeneratedMindMap, loadProviderSettings, saveProviderSettings, loadGenerationOptions, saveGenerationOptions } from './services/ai';
+import { applyAutoLayout, applyIncrementalLayout, layoutBranch, settleAroundPinned } from './utils/layout';
+import { branchLayoutFor, placeChild } from './utils/placement';
+import { normalizeNodes, normalizeLinks, withFreshIds, enforceGenerationOptions } from './utils/normalize';
+import { parseDocument } from './utils/documents';
+import { CURRENT_VERSION, parseMindMapData } from './utils/schema';
+import { mindMapToMarkdown, markdownToMindMap } from './utils/markdown';
+import { mindMapToFreeMind, freeMindToMindMap } from './utils/freemind';
+import { mindMapToOpml, opmlToMindMap } from './utils/opml';
+import { mindMapToMermaidFlowchart, mindMapToMermaidMindmap } from './utils/mermaid';
+import { mindMapToDot } from './utils/dot';
+import { downloadText, datedFilename } from './utils/download';
+import { createShareLink, isShareFragment, readShareFragment, LONG_SHARE_LINK } from './utils/share';
+import { appendBranch, mergeMindMaps } from './utils/merge';
+import { EMPTY_HISTORY, EditHistory, MapState, diffMapState, endCoalescing, recordChange, travel } from './utils/history';
+import { alignNodes, distributeNodes, AlignMode, DistributeAxis } from './utils/arrange';
+import { NodeSize } from './utils/nodeBox';
+import { getDescendantIds, topmostOf, getHiddenIds, getDepths, withCollapsed, withPinned } from './utils/tree';
+import { copyBranches, writeClipboard, readClipboard, pasteBranches } from './utils/clipboard';
+import { streamMindMapFromSources, streamChunkedMindMap } from './services/pipeline';
+import { AIError, AIErrorKind } from './services/errors';
+import { listMaps, saveMap, deleteMap, getLastMapId, setLastMapId, loadLayoutOptions, saveLayoutOptions } from './services/storage';
+import { joinSession, loadCollabSettings, saveCollabSettings, CollabSession, CollabSettings } from './services/collab';
+import { DEFAULT_CHUNK_SIZE } from './utils/chunk';
+import { Plus, Wand2, Upload, RotateCcw, Undo2, Redo2, Sparkles, Loader2, Link2, Library, ClipboardCopy, Share2, ChevronsDownUp } from 'lucide-react';
 
 const DEFAULT_ROOT: MindMapNode = {
   id: 'root',
@@ -23,104 +53,163 @@ const DEFAULT_ROOT: MindMapNode = {
   }
 };
 
+// Edits are written to the library once the map has been still for this long
+const AUTOSAVE_DELAY = 800;
+// How far a duplicated branch sits from the original
+const DUPLICATE_OFFSET = 40;
+
+const createStoredMap = (title: string, nodes: MindMapNode[], secondaryLinks: SecondaryLink[], id: string = crypto.randomUUID()): StoredMap => {
+  const now = Date.now();
+  return { id, title, createdAt: now, updatedAt: now, data: { version: CURRENT_VERSION, nodes, secondaryLinks } };
+};
+
+// What the error toast suggests for each kind of AI failure
+const RECOVERY: Record<Exclude<AIErrorKind, 'cancelled'>, { hint: string; canRetry: boolean; settingsLabel?: string }> = {
+  'api-key': { hint: 'Add a valid API key for this provider.', canRetry: false, settingsLabel: 'Open Settings' },
+  quota: { hint: 'The provider is rate limiting or out of quota. Wait a moment or switch provider.', canRetry: true, settingsLabel: 'Switch Provider' },
+  safety: { hint: 'The provider refused this content. Rephrase or shorten the input.', canRetry: false, settingsLabel: 'Edit Input' },
+  parse: { hint: 'The model did not return a valid map.', canRetry: true },
+  network: { hint: 'Check your connection and the provider URL.', canRetry: true, settingsLabel: 'Check Settings' },
+  timeout: { hint: 'Retry, or raise the timeout in the provider settings.', canRetry: true, settingsLabel: 'Open Settings' },
+};
+
+// How a node is named in history entries
+const nameOf = (node: MindMapNode) => `"${node.label.length > 24 ? `${node.label.slice(0, 23)}…` : node.label}"`;
+
+// History label for an edit to one node, and the key that folds a typing burst in one field into one step
+const describeNodeEdit = (before: MindMapNode, after: MindMapNode) => {
+  if (before.label !== after.label) return { label: `Rename ${nameOf(before)}`, coalesceKey: `label:${before.id}` };
+  if (before.description !== after.description) return { label: `Edit description of ${nameOf(before)}`, coalesceKey: `description:${before.id}` };
+  if (JSON.stringify(before.style) !== JSON.stringify(after.style)) return { label: `Restyle ${nameOf(before)}`, coalesceKey: `style:${before.id}` };
+  return { label: `Edit ${nameOf(before)}` };
+};
+
 function App() {
   const [nodes, setNodes] = useState<MindMapNode[]>([DEFAULT_ROOT]);
   const [secondaryLinks, setSecondaryLinks] = useState<SecondaryLink[]>([]);
-  const [history, setHistory] = useState<{
-      past: { nodes: MindMapNode[], links: SecondaryLink[] }[], 
-      future: { nodes: MindMapNode[], links: SecondaryLink[] }[]
-  }>({ past: [], future: [] });
+  const [history, setHistory] = useState<EditHistory>(EMPTY_HISTORY);
   
   const [status, setStatus] = useState<AppStatus>(AppStatus.IDLE);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
-  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  const [noticeMsg, setNoticeMsg] = useState<string | null>(null);
+  // Set alongside errorMsg when an AI call failed, to offer the matching recovery
+  const [failure, setFailure] = useState<{ kind: Exclude<AIErrorKind, 'cancelled'>; retry: () => void } | null>(null);
+  // In selection order; the last one is the primary selection that single-node actions use
+  const [selectedNodeIds, setSelectedNodeIds] = useState<string[]>([]);
+  const [providerSettings, setProviderSettings] = useState<AIProviderSettings>(loadProviderSettings);
+  const [generationOptions, setGenerationOptions] = useState<GenerationOptions>(loadGenerationOptions);
+  const [layoutOptions, setLayoutOptions] = useState<LayoutOptions>(loadLayoutOptions);
+  // Node sizes as last drawn on the canvas; layouts fall back to computed boxes for the rest
+  const nodeSizesRef = useRef<Map<string, NodeSize>>(new Map());
+  const [streamedNodeCount, setStreamedNodeCount] = useState(0);
+  const [chunkProgress, setChunkProgress] = useState<ChunkProgress[] | null>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const [expandingNodeId, setExpandingNodeId] = useState<string | null>(null);
+  // Cancel the running AI expand and link suggestion requests
+  const expandAbortRef = useRef<AbortController | null>(null);
+  const linksAbortRef = useRef<AbortController | null>(null);
+  const [isSuggestingLinks, setIsSuggestingLinks] = useState(false);
+  const [linkSuggestions, setLinkSuggestions] = useState<SecondaryLink[] | null>(null);
+  const [library, setLibrary] = useState<StoredMap[]>([]);
+  const [currentMapId, setCurrentMapId] = useState<string | null>(null);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [isImageExportOpen, setIsImageExportOpen] = useState(false);
+  // The arrays last written to the library; autosave skips when the canvas still holds them
+  const lastSavedRef = useRef<{ nodes: MindMapNode[], links: SecondaryLink[] } | null>(null);
+  const libraryLoadedRef = useRef(false);
+  const [collabSettings, setCollabSettings] = useState<CollabSettings>(loadCollabSettings);
+  const [collab, setCollab] = useState<CollabSession | null>(null);
+  const [collabStatus, setCollabStatus] = useState<CollabStatus | null>(null);
+  const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
+  // In a session, undo and redo go through the session and only cover our own edits
+  const [collabHistory, setCollabHistory] = useState({ canUndo: false, canRedo: false });
+  // A map opened from a share link, shown read-only over the editor
+  const [sharedMap, setSharedMap] = useState<MindMapData | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const selectedNode = nodes.find(n => n.id === selectedNodeId);
+  const selectedNodeId = selectedNodeIds[selectedNodeIds.length - 1] ?? null;
+  const setSelectedNodeId = (id: string | null) => setSelectedNodeIds(id ? [id] : []);
+  const selectedNodes = selectedNodeIds.map(id => nodes.find(n => n.id === id)).filter((n): n is MindMapNode => !!n);
+  const selectedNode = selectedNodes[selectedNodes.length - 1];
 
   // --- History Helper ---
-  const pushToHistory = useCallback((newNodes: MindMapNode[], newLinks: SecondaryLink[] = secondaryLinks) => {
-      setHistory(prev => ({
-          past: [...prev.past, { nodes, links: secondaryLinks }],
-          future: []
-      }));
+  // Every edit goes through here. In a collaborative session it is sent to the room, which keeps the history instead.
+  const commitChange = useCallback((label: string, newNodes: MindMapNode[], newLinks: SecondaryLink[] = secondaryLinks, coalesceKey?: string) => {
+      const before = { nodes, links: secondaryLinks };
+      const after = { nodes: newNodes, links: newLinks };
+      if (collab) collab.write(diffMapState(before, after));
+      else setHistory(prev => recordChange(prev, before, after, label, coalesceKey));
       setNodes(newNodes);
       setSecondaryLinks(newLinks);
-  }, [nodes, secondaryLinks]);
+  }, [collab, nodes, secondaryLinks]);
+
+  // A drag or slider gesture is one step at most: letting go ends coalescing
+  const handleGestureEnd = useCallback(() => {
+      if (collab) collab.endGesture();
+      else setHistory(endCoalescing);
+  }, [collab]);
+
+  const handleHistoryJump = useCallback((cursor: number) => {
+      if (collab || cursor === history.cursor) return;
+      const result = travel(history, { nodes, links: secondaryLinks }, cursor);
+      setHistory(result.history);
+      setNodes(result.state.nodes);
+      setSecondaryLinks(result.state.links);
+  }, [collab, history, nodes, secondaryLinks]);
 
   const handleUndo = useCallback(() => {
-      if (history.past.length === 0) return;
-      const previous = history.past[history.past.length - 1];
-      const newPast = history.past.slice(0, -1);
-      
-      setHistory({
-          past: newPast,
-          future: [{ nodes, links: secondaryLinks }, ...history.future]
-      });
-      setNodes(previous.nodes);
-      setSecondaryLinks(previous.links);
-  }, [history, nodes, secondaryLinks]);
+      if (collab) collab.undo();
+      else if (history.cursor > 0) handleHistoryJump(history.cursor - 1);
+  }, [collab, history, handleHistoryJump]);
 
   const handleRedo = useCallback(() => {
-      if (history.future.length === 0) return;
-      const next = history.future[0];
-      const newFuture = history.future.slice(1);
-
-      setHistory({
-          past: [...history.past, { nodes, links: secondaryLinks }],
-          future: newFuture
-      });
-      setNodes(next.nodes);
-      setSecondaryLinks(next.links);
-  }, [history, nodes, secondaryLinks]);
+      if (collab) collab.redo();
+      else if (history.cursor < history.entries.length) handleHistoryJump(history.cursor + 1);
+  }, [collab, history, handleHistoryJump]);
 
   // --- Node Operations ---
 
   const handleNodeUpdate = useCallback((updatedNode: MindMapNode) => {
+    const previous = nodes.find(n => n.id === updatedNode.id);
+    if (!previous) return;
     const newNodes = nodes.map(n => n.id === updatedNode.id ? updatedNode : n);
-    pushToHistory(newNodes);
-  }, [nodes, pushToHistory]);
+    const { label, coalesceKey } = describeNodeEdit(previous, updatedNode);
+    commitChange(label, newNodes, secondaryLinks, coalesceKey);
+  }, [nodes, secondaryLinks, commitChange]);
 
   const handleNodeMove = useCallback((id: string, dx: number, dy: number) => {
-      // Move a node and its entire subtree
-      const getDescendants = (nodeId: string, list: MindMapNode[]): string[] => {
-          return list.filter(n => n.parentId === nodeId).reduce((acc, child) => {
-              return [...acc, child.id, ...getDescendants(child.id, list)];
-          }, [] as string[]);
-      };
-
-      const idsToMove = [id, ...getDescendants(id, nodes)];
+      // Move a node and its entire subtree, or every selected node and theirs when it is part of the selection
+      const group = selectedNodeIds.includes(id) ? selectedNodeIds : [id];
+      const idsToMove = new Set(group.flatMap(g => [g, ...getDescendantIds(g, nodes)]));
+      // The dragged nodes are placed by hand now, so they are pinned; their subtrees stay free to lay out
       const newNodes = nodes.map(n => {
-          if (idsToMove.includes(n.id)) {
-              return { ...n, x: n.x + dx, y: n.y + dy };
+          if (idsToMove.has(n.id)) {
+              const moved = { ...n, x: n.x + dx, y: n.y + dy };
+              return group.includes(n.id) ? withPinned(moved, true) : moved;
           }
           return n;
       });
       
-      setNodes(newNodes);
-      // Note: We don't push to history on every mouse move frame, only on drag end would be ideal
-      // but for simplicity here we update state directly. 
-      // A production app would likely debounce history push or use a dragEnd handler.
-  }, [nodes]);
+      // Every frame of a drag folds into one step
+      const moved = nodes.find(n => n.id === id);
+      const label = group.length > 1 ? `Move ${group.length} nodes` : `Move ${moved ? nameOf(moved) : 'node'}`;
+      commitChange(label, newNodes, secondaryLinks, `move:${[...group].sort().join(',')}`);
+  }, [nodes, secondaryLinks, selectedNodeIds, commitChange]);
 
   const handleNodeAdd = useCallback((parentId: string) => {
     const parent = nodes.find(n => n.id === parentId);
     if (!parent) return;
 
-    // Place new child to the right of parent with some randomization
-    const newNode: MindMapNode = {
-      id: crypto.randomUUID(),
-      parentId,
-      label: 'New Node',
-      x: parent.x + 200,
-      y: parent.y + (Math.random() * 100 - 50)
-    };
-    
-    const newNodes = [...nodes, newNode];
-    pushToHistory(newNodes);
+    const newNode: MindMapNode = { id: crypto.randomUUID(), parentId, label: 'New Node', x: parent.x, y: parent.y };
+    // A collapsed parent opens so the new node can be seen
+    const opened = nodes.map(n => n.id === parentId && n.collapsed ? withCollapsed(n, false) : n);
+    // After the parent's other children in the current layout, clear of every node on the canvas
+    const { kind, spacing } = layoutOptions;
+    const slot = placeChild(opened, parent, newNode, kind, spacing[kind], nodeSizesRef.current);
+    commitChange(`Add node under ${nameOf(parent)}`, [...opened, { ...newNode, ...slot }]);
     setTimeout(() => setSelectedNodeId(newNode.id), 100);
-  }, [nodes, pushToHistory]);
+  }, [nodes, layoutOptions, commitChange]);
 
   const handleNodeAddSibling = useCallback((id: string) => {
       const node = nodes.find(n => n.id === id);
@@ -129,29 +218,32 @@ function App() {
       }
   }, [nodes, handleNodeAdd]);
 
-  const handleNodeDelete = useCallback((id: string) => {
-    const getDescendants = (nodeId: string, currentNodes: MindMapNode[]): string[] => {
-      const children = currentNodes.filter(n => n.parentId === nodeId);
-      let ids = [nodeId];
-      children.forEach(child => {
-        ids = [...ids, ...getDescendants(child.id, currentNodes)];
-      });
-      return ids;
-    };
-    const idsToDelete = getDescendants(id, nodes);
+  const handleNodesDelete = useCallback((ids: string[]) => {
+    const tops = topmostOf(ids, nodes);
+    if (tops.length === 0) return;
+    const idsToDelete = new Set(tops.flatMap(id => [id, ...getDescendantIds(id, nodes)]));
     
     // Remove nodes
-    const newNodes = nodes.filter(n => !idsToDelete.includes(n.id));
+    const newNodes = nodes.filter(n => !idsToDelete.has(n.id));
     
     // Remove associated links
-    const newLinks = secondaryLinks.filter(l => !idsToDelete.includes(l.sourceId) && !idsToDelete.includes(l.targetId));
+    const newLinks = secondaryLinks.filter(l => !idsToDelete.has(l.sourceId) && !idsToDelete.has(l.targetId));
+
+    const deleted = nodes.find(n => n.id === tops[0]);
+    const below = idsToDelete.size - tops.length;
+    const label = tops.length > 1
+        ? `Delete ${tops.length} nodes${below > 0 ? ` and ${below} below them` : ''}`
+        : `Delete ${deleted ? nameOf(deleted) : 'node'}${below > 0 ? ` and ${below} below it` : ''}`;
+    commitChange(label, newNodes, newLinks);
+    setSelectedNodeIds([]);
+  }, [nodes, secondaryLinks, commitChange]);
 
-    pushToHistory(newNodes, newLinks);
-    setSelectedNodeId(null);
-  }, [nodes, secondaryLinks, pushToHistory]);
+  const handleNodeDelete = useCallback((id: string) => handleNodesDelete([id]), [handleNodesDelete]);
 
   const handleNodeReparent = useCallback((nodeId: string, newParentId: string) => {
-    if (nodeId === newParentId) return;
+    // The whole selection moves when the dragged node is part of it; nodes below another selected one stay with it
+    const group = topmostOf(selectedNodeIds.includes(nodeId) ? selectedNodeIds : [nodeId], nodes).filter(id => id !== newParentId);
+    if (group.length === 0) return;
 
     // Check for cycles
     const isDescendant = (parent: string, child: string): boolean => {
@@ -163,15 +255,115 @@ function App() {
         return false;
     };
 
-    if (isDescendant(newParentId, nodeId)) {
+    if (group.some(id => isDescendant(id, newParentId))) {
         setErrorMsg("Cannot move a node into its own descendant.");
         setTimeout(() => setErrorMsg(null), 3000);
         return;
     }
 
-    const newNodes = nodes.map(n => n.id === nodeId ? { ...n, parentId: newParentId } : n);
-    pushToHistory(newNodes);
-  }, [nodes, pushToHistory]);
+    const newNodes = nodes.map(n => group.includes(n.id) ? { ...n, parentId: newParentId } : n);
+    const moved = nodes.find(n => n.id === group[0]);
+    const parent = nodes.find(n => n.id === newParentId);
+    const what = group.length > 1 ? `${group.length} nodes` : moved ? nameOf(moved) : 'node';
+    commitChange(`Move ${what} under ${parent ? nameOf(parent) : 'another node'}`, newNodes);
+  }, [nodes, selectedNodeIds, commitChange]);
+
+  // --- Collapsing ---
+  // Selected nodes that went out of sight leave the selection
+  const dropHiddenFromSelection = (newNodes: MindMapNode[]) => {
+      const hidden = getHiddenIds(newNodes);
+      setSelectedNodeIds(ids => ids.filter(id => !hidden.has(id)));
+  };
+
+  // Collapses the given branches, or expands them all when every one is already collapsed
+  const handleToggleCollapse = useCallback((ids: string[]) => {
+      const targets = nodes.filter(n => ids.includes(n.id) && nodes.some(c => c.parentId === n.id));
+      if (targets.length === 0) return;
+      const collapse = targets.some(n => !n.collapsed);
+      const newNodes = nodes.map(n => targets.includes(n) ? withCollapsed(n, collapse) : n);
+      const what = targets.length > 1 ? `${targets.length} branches` : nameOf(targets[0]);
+      commitChange(`${collapse ? 'Collapse' : 'Expand'} ${what}`, newNodes);
+      if (collapse) dropHiddenFromSelection(newNodes);
+  }, [nodes, commitChange]);
+
+  const handleExpandAll = () => {
+      commitChange('Expand all', nodes.map(n => n.collapsed ? withCollapsed(n, false) : n));
+  };
+
+  // Shows `level` levels below the root: nodes at that depth are collapsed, everything above it opened
+  const handleCollapseToLevel = (level: number) => {
+      const depths = getDepths(nodes);
+      const parents = new Set(nodes.map(n => n.parentId));
+      const newNodes = nodes.map(n => {
+          const collapsed = depths.get(n.id) === level && parents.has(n.id);
+          return !!n.collapsed === collapsed ? n : withCollapsed(n, collapsed);
+      });
+      commitChange(`Collapse to level ${level}`, newNodes);
+      dropHiddenFromSelection(newNodes);
+  };
+
+  // --- Selection Operations ---
+  const handleSelectionStyle = useCallback((changes: Partial<NodeStyle>) => {
+      if (selectedNodes.length === 1) {
+          handleNodeUpdate({ ...selectedNodes[0], style: { ...selectedNodes[0].style, ...changes } });
+          return;
+      }
+      const ids = selectedNodes.map(n => n.id);
+      const newNodes = nodes.map(n => ids.includes(n.id) ? { ...n, style: { ...n.style, ...changes } } : n);
+      commitChange(`Restyle ${ids.length} nodes`, newNodes, secondaryLinks, `style:${[...ids].sort().join(',')}`);
+  }, [nodes, secondaryLinks, selectedNodes, handleNodeUpdate, commitChange]);
+
+  // Arranged nodes count as placed by hand, so they are pinned
+  const pinSelection = (list: MindMapNode[]) => list.map(n => selectedNodeIds.includes(n.id) && !n.pinned ? withPinned(n, true) : n);
+
+  const handleAlign = (mode: AlignMode) => {
+      commitChange(`Align ${selectedNodes.length} nodes (${mode})`, pinSelection(alignNodes(nodes, selectedNodeIds, mode, nodeSizesRef.current)));
+  };
+
+  const handleDistribute = (axis: DistributeAxis) => {
+      commitChange(`Distribute ${selectedNodes.length} nodes (${axis})`, pinSelection(distributeNodes(nodes, selectedNodeIds, axis, nodeSizesRef.current)));
+  };
+
+  // Pins the selection, or unpins it when every selected node is already pinned
+  const handleTogglePin = () => {
+      const pin = selectedNodes.some(n => !n.pinned);
+      const ids = selectedNodes.map(n => n.id);
+      const what = ids.length > 1 ? `${ids.length} nodes` : nameOf(selectedNodes[0]);
+      commitChange(`${pin ? 'Pin' : 'Unpin'} ${what}`, nodes.map(n => ids.includes(n.id) ? withPinned(n, pin) : n));
+  };
+
+  // Copies each selected branch, with the cross-links inside it, next to the original and selects the copies
+  const handleDuplicateSelection = () => {
+      const tops = topmostOf(selectedNodeIds, nodes).filter(id => nodes.find(n => n.id === id)?.parentId);
+      if (tops.length === 0) return;
+
+      const copies: MindMapNode[] = [];
+      const copiedLinks: SecondaryLink[] = [];
+      tops.forEach(id => {
+          const branchIds = [id, ...getDescendantIds(id, nodes)];
+          const branch = nodes.filter(n => branchIds.includes(n.id));
+          const fresh = withFreshIds(branch).map(n => ({ ...n, x: n.x + DUPLICATE_OFFSET, y: n.y + DUPLICATE_OFFSET }));
+          const idMap = new Map(branch.map((n, i) => [n.id, fresh[i].id]));
+          secondaryLinks.forEach(l => {
+              if (idMap.has(l.sourceId) && idMap.has(l.targetId)) {
+                  copiedLinks.push({ ...l, sourceId: idMap.get(l.sourceId)!, targetId: idMap.get(l.targetId)! });
+              }
+          });
+          copies.push(...fresh);
+      });
+
+      const first = nodes.find(n => n.id === tops[0]);
+      const label = tops.length > 1 ? `Duplicate ${tops.length} branches` : `Duplicate ${first ? nameOf(first) : 'branch'}`;
+      commitChange(label, [...nodes, ...copies], [...secondaryLinks, ...copiedLinks]);
+      const copiedIds = new Set(copies.map(n => n.id));
+      setSelectedNodeIds(copies.filter(n => !n.parentId || !copiedIds.has(n.parentId)).map(n => n.id));
+  };
+
+  // Adds everything below the selected nodes to the selection, keeping the primary one last
+  const handleSelectBranch = () => {
+      const below = selectedNodeIds.flatMap(id => getDescendantIds(id, nodes)).filter(id => !selectedNodeIds.includes(id));
+      setSelectedNodeIds([...new Set(below), ...selectedNodeIds]);
+  };
 
   // --- Link Operations ---
   const handleLinkAdd = useCallback((sourceId: string, targetId: string) => {
@@ -179,104 +371,645 @@ function App() {
       if (secondaryLinks.some(l => (l.sourceId === sourceId && l.targetId === targetId) || (l.sourceId === targetId && l.targetId === sourceId))) return;
 
       const newLinks = [...secondaryLinks, { sourceId, targetId }];
-      pushToHistory(nodes, newLinks);
-  }, [nodes, secondaryLinks, pushToHistory]);
+      commitChange('Add cross-link', nodes, newLinks);
+  }, [nodes, secondaryLinks, commitChange]);
 
   const handleLinkDelete = useCallback((sourceId: string, targetId: string) => {
       const newLinks = secondaryLinks.filter(l => !(l.sourceId === sourceId && l.targetId === targetId));
-      pushToHistory(nodes, newLinks);
-  }, [nodes, secondaryLinks, pushToHistory]);
+      commitChange('Remove cross-link', nodes, newLinks);
+  }, [nodes, secondaryLinks, commitChange]);
 
   // --- Auto Layout ---
-  const handleAutoLayout = (direction: 'horizontal' | 'vertical') => {
-      const updatedNodes = applyAutoLayout(nodes, direction);
-      pushToHistory(updatedNodes);
+  const handleNodeSizesChange = useCallback((sizes: Map<string, NodeSize>) => {
+      nodeSizesRef.current = sizes;
+  }, []);
+
+  // Spacing slider drags fold into one step per layout
+  const handleAutoLayout = (kind: LayoutKind, spacing: LayoutSpacing) => {
+      const layout = layoutOptions.keepPinned ? applyIncrementalLayout : applyAutoLayout;
+      const updatedNodes = layout(nodes, kind, spacing, nodeSizesRef.current);
+      commitChange(`Auto layout (${kind})`, updatedNodes, secondaryLinks, `layout:${kind}`);
+  };
+
+  const handleUnpinAll = () => {
+      commitChange('Unpin all nodes', nodes.map(n => n.pinned ? withPinned(n, false) : n));
+  };
+
+  const handleLayoutOptionsChange = (options: LayoutOptions) => {
+      setLayoutOptions(options);
+      saveLayoutOptions(options);
   };
 
   const handleReset = () => {
     if (confirm("Are you sure you want to clear the canvas?")) {
-        pushToHistory([DEFAULT_ROOT], []);
+        commitChange('Clear canvas', [DEFAULT_ROOT], []);
         setSelectedNodeId('root');
     }
   };
 
   // --- File I/O ---
   const handleExport = () => {
-      const data: MindMapData = { version: '1.1', nodes, secondaryLinks };
-      const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `mindmap-${new Date().toISOString().slice(0, 10)}.json`;
-      a.click();
-      URL.revokeObjectURL(url);
+      const data: MindMapData = { version: CURRENT_VERSION, nodes, secondaryLinks };
+      downloadText(JSON.stringify(data, null, 2), datedFilename('json'), 'application/json');
+  };
+
+  const handleExportMarkdown = () => {
+      downloadText(mindMapToMarkdown(nodes, secondaryLinks), datedFilename('md'), 'text/markdown');
+  };
+
+  const handleExportFreeMind = () => {
+      downloadText(mindMapToFreeMind(nodes, secondaryLinks), datedFilename('mm'), 'application/x-freemind');
+  };
+
+  const handleExportOpml = () => {
+      downloadText(mindMapToOpml(nodes, secondaryLinks), datedFilename('opml'), 'text/x-opml');
+  };
+
+  const handleExportMermaid = (diagram: 'flowchart' | 'mindmap') => {
+      const text = diagram === 'flowchart' ? mindMapToMermaidFlowchart(nodes, secondaryLinks) : mindMapToMermaidMindmap(nodes);
+      downloadText(text, datedFilename('mmd'), 'text/vnd.mermaid');
+  };
+
+  const handleExportDot = () => {
+      downloadText(mindMapToDot(nodes, secondaryLinks), datedFilename('dot'), 'text/vnd.graphviz');
+  };
+
+  const handleCopy = async (text: string, format: string) => {
+      try {
+          await navigator.clipboard.writeText(text);
+          showNotice(`Copied the map as ${format}.`);
+      } catch (e) {
+          console.error(e);
+          setErrorMsg("Could not copy to the clipboard. Use the export menu to download the file instead.");
+      }
   };
 
   const handleImportClick = () => {
       fileInputRef.current?.click();
   };
 
+  // Outline formats carry no positions, so their maps are laid out like a generated one
+  const importWithLayout = (imported: { nodes: MindMapNode[], links: SecondaryLink[] }, name: string) => {
+      const laidOut = applyAutoLayout(imported.nodes, layoutOptions.kind, layoutOptions.spacing[layoutOptions.kind]);
+      const root = laidOut.find(n => n.parentId === null);
+      if (root) root.style = { ...DEFAULT_ROOT.style, ...root.style };
+      commitChange(`Import ${name}`, laidOut, imported.links);
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
       if (!file) return;
+      const extension = file.name.slice(file.name.lastIndexOf('.') + 1).toLowerCase();
+      const title = file.name.replace(/\.[^.]+$/, '');
       const reader = new FileReader();
       reader.onload = (event) => {
+          const text = event.target?.result as string;
           try {
-              const data = JSON.parse(event.target?.result as string) as MindMapData;
-              if (Array.isArray(data.nodes)) {
-                  // Backwards compatibility for v1.0 (no x/y)
-                  let loadedNodes = data.nodes;
-                  if (loadedNodes.length > 0 && typeof loadedNodes[0].x === 'undefined') {
-                       loadedNodes = applyAutoLayout(loadedNodes);
-                  }
-                  
-                  pushToHistory(loadedNodes, data.secondaryLinks || []);
-                  setSelectedNodeId(null);
+              if (extension === 'md' || extension === 'markdown') {
+                  importWithLayout(markdownToMindMap(text, title), file.name);
+              } else if (extension === 'mm') {
+                  importWithLayout(freeMindToMindMap(text, file.name), file.name);
+              } else if (extension === 'opml') {
+                  importWithLayout(opmlToMindMap(text, file.name), file.name);
               } else {
-                  alert("Invalid file format");
+                  const data = parseMindMapData(JSON.parse(text));
+                  commitChange(`Import ${file.name}`, data.nodes, data.secondaryLinks);
               }
-          } catch (err) {
-              alert("Failed to parse JSON");
+              setSelectedNodeId(null);
+          } catch (err: any) {
+              console.error(err);
+              setErrorMsg(err instanceof SyntaxError ? `${file.name} is not valid JSON: ${err.message}` : err.message);
           }
       };
       reader.readAsText(file);
       e.target.value = '';
   };
 
+  // --- Library ---
+  const persistMap = async (map: StoredMap) => {
+      await saveMap(map);
+      setLibrary(prev => [map, ...prev.filter(m => m.id !== map.id)]);
+  };
+
+  // Puts a stored map on the canvas. Undo history belongs to one map, so it starts empty.
+  const showMap = (map: StoredMap) => {
+      leaveCollab();
+      const links = map.data.secondaryLinks || [];
+      lastSavedRef.current = { nodes: map.data.nodes, links };
+      setNodes(map.data.nodes);
+      setSecondaryLinks(links);
+      setHistory(EMPTY_HISTORY);
+      setSelectedNodeId(null);
+      setCurrentMapId(map.id);
+      setLastMapId(map.id);
+  };
+
+  const saveCurrentMap = async () => {
+      const entry = library.find(m => m.id === currentMapId);
+      const saved = lastSavedRef.current;
+      if (!entry || (saved?.nodes === nodes && saved?.links === secondaryLinks)) return;
+      lastSavedRef.current = { nodes, links: secondaryLinks };
+      await persistMap({ ...entry, updatedAt: Date.now(), data: { version: CURRENT_VERSION, nodes, secondaryLinks } });
+  };
+
+  const reportStorageError = (error: any) => {
+      console.error(error);
+      setErrorMsg(`Could not save to the library: ${error?.message || error}`);
+  };
+
+  // Reopen the last map, or start the library with the blank canvas
+  useEffect(() => {
+      if (libraryLoadedRef.current) return;
+      libraryLoadedRef.current = true;
+      (async () => {
+          const maps = await listMaps();
+          const params = new URLSearchParams(window.location.search);
+          const room = params.get('room');
+          if (room) {
+              // An invite link: open our copy of the shared map, or a placeholder the room fills in
+              const copy = maps.find(m => m.id === room);
+              const map = copy || createStoredMap('Shared Map', [DEFAULT_ROOT], [], room);
+              setLibrary(maps);
+              if (!copy) await persistMap(map);
+              showMap(map);
+              startCollab(map, params.get('relay') || collabSettings.relayUrl, !!copy);
+              return;
+          }
+          const last = maps.find(m => m.id === getLastMapId()) || maps[0];
+          if (last) {
+              setLibrary(maps);
+              showMap(last);
+          } else {
+              const map = createStoredMap('Untitled Map', [DEFAULT_ROOT], []);
+              await persistMap(map);
+              showMap(map);
+          }
+      })().catch(reportStorageError);
+  }, []);
+
+  // Streamed frames are not saved; the finished map is, once status drops back to idle
+  useEffect(() => {
+      if (!currentMapId || status === AppStatus.GENERATING) return;
+      const timer = setTimeout(() => saveCurrentMap().catch(reportStorageError), AUTOSAVE_DELAY);
+      return () => clearTimeout(timer);
+  }, [nodes, secondaryLinks, currentMapId, library, status]);
+
+  // Flush a pending autosave when the tab is closed or hidden
+  const saveCurrentMapRef = useRef(saveCurrentMap);
+  saveCurrentMapRef.current = saveCurrentMap;
+  useEffect(() => {
+      const flush = () => { saveCurrentMapRef.current().catch(console.error); };
+      window.addEventListener('pagehide', flush);
+      return () => window.removeEventListener('pagehide', flush);
+  }, []);
+
+  const handleOpenMap = async (id: string) => {
+      const map = library.find(m => m.id === id);
+      if (!map || status === AppStatus.GENERATING) return;
+      try {
+          await saveCurrentMap();
+          showMap(map);
+      } catch (error) {
+          reportStorageError(error);
+      }
+  };
+
+  const handleCreateMap = async () => {
+      if (status === AppStatus.GENERATING) return;
+      try {
+          await saveCurrentMap();
+          const map = createStoredMap('Untitled Map', [DEFAULT_ROOT], []);
+          await persistMap(map);
+          showMap(map);
+      } catch (error) {
+          reportStorageError(error);
+      }
+  };
+
+  // The open map's stored copy may lag behind the canvas, so its data is taken from state
+  const currentDataOf = (map: StoredMap) =>
+      map.id === currentMapId ? { ...map.data, nodes, secondaryLinks } : map.data;
+
+  const handleRenameMap = (id: string, title: string) => {
+      const map = library.find(m => m.id === id);
+      if (!map) return;
+      persistMap({ ...map, title, updatedAt: Date.now(), data: currentDataOf(map) }).catch(reportStorageError);
+  };
+
+  const handleDuplicateMap = (id: string) => {
+      const map = library.find(m => m.id === id);
+      if (!map) return;
+      const data = currentDataOf(map);
+      persistMap(createStoredMap(`${map.title} (copy)`, data.nodes, data.secondaryLinks || [])).catch(reportStorageError);
+  };
+
+  const handleDeleteMap = async (id: string) => {
+      const map = library.find(m => m.id === id);
+      if (!map || !confirm(`Delete "${map.title}"? This cannot be undone.`)) return;
+      try {
+          // Keep a pending autosave from writing the deleted map back
+          if (id === currentMapId) lastSavedRef.current = { nodes, links: secondaryLinks };
+          await deleteMap(id);
+          const remaining = library.filter(m => m.id !== id);
+          setLibrary(remaining);
+          if (id !== currentMapId) return;
+          if (remaining.length > 0) {
+              showMap(remaining[0]);
+          } else {
+              const blank = createStoredMap('Untitled Map', [DEFAULT_ROOT], []);
+              await persistMap(blank);
+              showMap(blank);
+          }
+      } catch (error) {
+          reportStorageError(error);
+      }
+  };
+
+  // --- Collaboration ---
+  // The room is the map's id, so everyone in it keeps their copy under the same library entry
+  const startCollab = (map: StoredMap, relayUrl: string, seed: boolean) => {
+      const session = joinSession({
+          relayUrl,
+          room: map.id,
+          user: collabSettings.user,
+          nodes: map.data.nodes,
+          links: map.data.secondaryLinks || [],
+          seed,
+      }, {
+          onChange: (newNodes, newLinks) => {
+              setNodes(newNodes);
+              setSecondaryLinks(newLinks);
+          },
+          onStatusChange: setCollabStatus,
+          onPeersChange: setCollaborators,
+          onHistoryChange: (canUndo, canRedo) => setCollabHistory({ canUndo, canRedo }),
+      });
+      // Snapshots from before the session would revert other people's edits
+      setHistory(EMPTY_HISTORY);
+      setCollabHistory({ canUndo: false, canRedo: false });
+      setCollab(session);
+
+      // The address bar doubles as the invite link
+      const url = new URL(window.location.href);
+      url.search = new URLSearchParams({ room: map.id, relay: relayUrl }).toString();
+      window.history.replaceState(null, '', url);
+  };
+
+  const leaveCollab = () => {
+      if (!collab) return;
+      setCollab(null);
+      setCollabStatus(null);
+      setCollaborators([]);
+      setHistory(EMPTY_HISTORY);
+      const url = new URL(window.location.href);
+      url.search = '';
+      window.history.replaceState(null, '', url);
+  };
+
+  // Leaving happens here, so replacing or dropping the session always closes the old one
+  useEffect(() => () => collab?.leave(), [collab]);
+
+  useEffect(() => {
+      collab?.setPresence({ selectedNodeId });
+  }, [collab, selectedNodeId]);
+
+  const handleCopyInviteLink = async () => {
+      try {
+          await navigator.clipboard.writeText(window.location.href);
+          showNotice("Invite link copied. Whoever opens it joins this map.");
+      } catch (e) {
+          showNotice(`Share this link to invite others: ${window.location.href}`);
+      }
+  };
+
+  const handleStartCollab = async () => {
+      const map = library.find(m => m.id === currentMapId);
+      if (!map) return;
+      startCollab({ ...map, data: currentDataOf(map) }, collabSettings.relayUrl, true);
+      await handleCopyInviteLink();
+  };
+
+  const handleCollabSettingsChange = (settings: CollabSettings) => {
+      setCollabSettings(settings);
+      saveCollabSettings(settings);
+      collab?.setPresence({ user: settings.user });
+  };
+
+  // --- Share Links ---
+  const handleShareLink = async () => {
+      try {
+          const link = await createShareLink({ version: CURRENT_VERSION, nodes, secondaryLinks });
+          await navigator.clipboard.writeText(link);
+          showNotice(link.length > LONG_SHARE_LINK
+              ? `Read-only link copied. It is ${Math.round(link.length / 1000)}k characters long, which some apps cut short; export JSON instead if it arrives broken.`
+              : "Read-only link copied. The map travels inside the link; nothing is uploaded.");
+      } catch (e: any) {
+          console.error(e);
+          setErrorMsg(`Could not create a share link: ${e.message || e}`);
+      }
+  };
+
+  const closeSharedMap = () => {
+      setSharedMap(null);
+      const url = new URL(window.location.href);
+      url.hash = '';
+      window.history.replaceState(null, '', url);
+  };
+
+  // Open share links on load, and when one is pasted into this tab's address bar
+  useEffect(() => {
+      const open = () => {
+          if (!isShareFragment(window.location.hash)) return;
+          readShareFragment(window.location.hash)
+              .then(setSharedMap)
+              .catch((e: any) => {
+                  closeSharedMap();
+                  setErrorMsg(e.message);
+              });
+      };
+      open();
+      window.addEventListener('hashchange', open);
+      return () => window.removeEventListener('hashchange', open);
+  }, []);
+
+  const handleOpenSharedCopy = async () => {
+      if (!sharedMap) return;
+      const title = sharedMap.nodes.find(n => n.parentId === null)?.label || 'Shared Map';
+      try {
+          await saveCurrentMap();
+          const map = createStoredMap(title, sharedMap.nodes, sharedMap.secondaryLinks || []);
+          await persistMap(map);
+          showMap(map);
+          closeSharedMap();
+      } catch (error) {
+          reportStorageError(error);
+      }
+  };
+
   // --- AI Generation ---
-  const handleGenerate = async (text: string) => {
+  const showNotice = (message: string) => {
+      setNoticeMsg(message);
+      setTimeout(() => setNoticeMsg(null), 8000);
+  };
+
+  const clearError = () => {
+      setErrorMsg(null);
+      setFailure(null);
+  };
+
+  // AI failures get a recovery action; anything else (e.g. an unreadable file) just its message
+  const showAIError = (error: any, retry: () => void, cancelledNotice = "Generation cancelled.") => {
+      if (error instanceof AIError && error.kind === 'cancelled') {
+          showNotice(cancelledNotice);
+          return;
+      }
+      console.error(error);
+      setErrorMsg(error?.message || "Something went wrong.");
+      if (error instanceof AIError) setFailure({ kind: error.kind, retry });
+  };
+
+  const handleProviderSettingsChange = (settings: AIProviderSettings) => {
+      setProviderSettings(settings);
+      saveProviderSettings(settings);
+  };
+
+  const handleGenerationOptionsChange = (options: GenerationOptions) => {
+      setGenerationOptions(options);
+      saveGenerationOptions(options);
+  };
+
+  const handleGenerate = async (text: string, files: File[], mode: GenerationMode) => {
+    const appendTargetId = mode === 'append' ? selectedNodeId : null;
+    if (mode === 'append' && !appendTargetId) return;
+
     setStatus(AppStatus.GENERATING);
-    setErrorMsg(null);
-    try {
-      const generatedNodes = await generateMindMapFromText(text);
-      if (generatedNodes && generatedNodes.length > 0) {
-        // Run initial layout so they aren't all at 0,0
-        const laidOutNodes = applyAutoLayout(generatedNodes, 'horizontal');
-        
-        // Find root for style
-        const root = laidOutNodes.find(n => n.parentId === null);
+    clearError();
+    setStreamedNodeCount(0);
+    setChunkProgress(null);
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+
+    // Streamed frames bypass history; only the finished map becomes one undo step
+    const before: MapState = { nodes, links: secondaryLinks };
+    const keepsMap = mode !== 'replace' && before.nodes.length > 0;
+    // Added nodes get ids derived from the model's, so they keep their identity (and animation) across frames
+    const batchId = crypto.randomUUID().slice(0, 8);
+    const makeId = (id: string) => `${batchId}-${id}`;
+    // Added branches take the map's current layout
+    const layoutKind = layoutOptions.kind;
+    const layoutSpacing = layoutOptions.spacing[layoutKind];
+
+    // Builds the canvas for one streamed frame from the untouched starting map.
+    // Generated cross-links are carried over with the same id mapping as their nodes.
+    const combine = (generated: GeneratedMindMap) => {
+        if (keepsMap && mode === 'append') {
+            const appended = appendBranch(before.nodes, generated.nodes, appendTargetId!, makeId, layoutKind, layoutSpacing);
+            const remapped = generated.links.map(l => ({ ...l, sourceId: makeId(l.sourceId), targetId: makeId(l.targetId) }));
+            const links = [...before.links, ...normalizeLinks(remapped, appended, before.links)];
+            return { nodes: appended, links, added: generated.nodes.length, skipped: 0 };
+        }
+        if (keepsMap) {
+            const merged = mergeMindMaps(before.nodes, generated.nodes, makeId, layoutKind, layoutSpacing);
+            const remapped = generated.links.map(l => ({
+                ...l,
+                sourceId: merged.idMap.get(l.sourceId) ?? '',
+                targetId: merged.idMap.get(l.targetId) ?? '',
+            }));
+            const links = [...before.links, ...normalizeLinks(remapped, merged.nodes, before.links)];
+            return { ...merged, links };
+        }
+
+        const laidOut = applyAutoLayout(generated.nodes, layoutOptions.kind, layoutOptions.spacing[layoutOptions.kind]);
+        const root = laidOut.find(n => n.parentId === null);
         if (root) {
             root.style = { ...DEFAULT_ROOT.style, ...root.style };
-            pushToHistory(laidOutNodes, []);
-            setIsModalOpen(false);
-            setSelectedNodeId(root.id);
         }
+        return { nodes: laidOut, links: normalizeLinks(generated.links, laidOut), added: laidOut.length, skipped: 0 };
+    };
+
+    // Puts a frame on the canvas. In a session each frame goes to the room as part of one gesture,
+    // and the canvas shows the room's map, so edits peers make meanwhile stay on it.
+    let shown = before;
+    const show = (state: MapState) => {
+        if (collab) collab.write(diffMapState(shown, state));
+        shown = state;
+        const current = collab ? collab.read() : state;
+        setNodes(current.nodes);
+        setSecondaryLinks(current.links);
+    };
+
+    let result: ReturnType<typeof combine> | null = null;
+    let fixes: string[] = [];
+    collab?.startGesture();
+    try {
+      // Files and long texts go through the chunked pipeline, which keeps the modal open to show progress
+      const pipelineOptions = { generation: generationOptions, signal: controller.signal, onProgress: setChunkProgress };
+      const isLongText = text.trim().length > DEFAULT_CHUNK_SIZE && !/^https?:\/\//i.test(text.trim());
+      const isChunked = files.length > 0 || isLongText;
+
+      let stream: AsyncGenerator<GeneratedMindMap>;
+      // Several sources are joined under a root of their own, which the limits do not count
+      let rootGroupsSources = false;
+      if (files.length > 0) {
+          // Files are parsed up front so an unreadable one fails before any AI call
+          const sources: SourceDocument[] = await Promise.all(files.map(parseDocument));
+          if (text.trim()) sources.push({ name: 'Pasted text', text: text.trim() });
+          rootGroupsSources = sources.length > 1;
+          stream = streamMindMapFromSources(sources, providerSettings, pipelineOptions);
+      } else if (isLongText) {
+          stream = streamChunkedMindMap(text, providerSettings, pipelineOptions);
       } else {
+          stream = streamMindMapFromText(text, providerSettings, generationOptions, controller.signal);
+      }
+
+      for await (const generated of stream) {
+        const normalized = normalizeNodes(generated.nodes);
+        if (normalized.nodes.length === 0) continue;
+        const limited = enforceGenerationOptions(normalized.nodes, generationOptions, rootGroupsSources);
+        fixes = [...normalized.fixes, ...limited.fixes];
+
+        // Re-run the layout on every frame so new nodes spring into place as they arrive
+        result = combine({ nodes: limited.nodes, links: generated.links });
+
+        if (!isChunked) setIsModalOpen(false);
+        show({ nodes: result.nodes, links: result.links });
+        setStreamedNodeCount(result.added);
+      }
+
+      const root = result?.nodes.find(n => n.parentId === null);
+      if (result && root) {
+        setIsModalOpen(false);
+        if (!collab) setHistory(prev => recordChange(prev, before, shown, mode === 'replace' ? 'AI generate' : `AI ${mode}`));
+        if (!keepsMap) setSelectedNodeId(root.id);
+
+        const summary: string[] = [];
+        if (keepsMap && mode === 'merge') {
+            summary.push(`Added ${result.added} new nodes, skipped ${result.skipped} already on the map.`);
+        }
+        if (fixes.length > 0) {
+            summary.push(`Repaired AI output: ${fixes.join('; ')}.`);
+        }
+        if (summary.length > 0) showNotice(summary.join(' '));
+      } else {
+        show(before);
         setErrorMsg("AI returned an empty structure.");
       }
-    } catch (error: any) {
-      console.error(error);
-      setErrorMsg(error.message || "Failed to generate mind map.");
+    } catch (error) {
+      show(before);
+      showAIError(error, () => handleGenerate(text, files, mode));
     } finally {
+      collab?.endGesture();
+      generationAbortRef.current = null;
+      // A failed chunk stays on show in the modal until the next run
+      setChunkProgress(prev => prev?.some(p => p.status === 'failed') ? prev : null);
       setStatus(AppStatus.IDLE);
     }
   };
 
+  const handleCancelGenerate = () => {
+      generationAbortRef.current?.abort();
+  };
+
+  // Asking again for the node being expanded cancels the request
+  const handleNodeExpand = async (id: string) => {
+    if (expandingNodeId === id) {
+        expandAbortRef.current?.abort();
+        return;
+    }
+    const node = nodes.find(n => n.id === id);
+    if (!node || expandingNodeId) return;
+
+    setExpandingNodeId(id);
+    clearError();
+    const controller = new AbortController();
+    expandAbortRef.current = controller;
+    try {
+      const generated = await expandNodeWithAI(nodes, id, providerSettings, generationOptions, controller.signal);
+
+      // Normalize with the expanded node as root so strays end up under it, then give the new nodes fresh ids
+      const branchRoot = { ...node, parentId: null };
+      const normalized = normalizeNodes([branchRoot, ...generated]);
+      const limited = enforceGenerationOptions(normalized.nodes, generationOptions);
+      const fixes = [...normalized.fixes, ...limited.fixes];
+      const newNodes = withFreshIds(limited.nodes, [id]).filter(n => n.id !== id);
+      if (newNodes.length === 0) {
+        setErrorMsg("AI did not suggest any new nodes.");
+        return;
+      }
+
+      // Lay out the whole branch, existing children included, around the expanded node.
+      // Pinned children stay put and the rest settle around them.
+      const existingIds = getDescendantIds(id, nodes);
+      const existing = nodes.filter(n => existingIds.includes(n.id));
+      const { kind, spacing } = layoutOptions;
+      const branch = { ...branchLayoutFor(nodes, node, kind), spacing: spacing[kind], sizes: nodeSizesRef.current };
+      const branchNodes = [withPinned(withCollapsed(branchRoot, false), true), ...existing, ...newNodes];
+      const ideal = layoutBranch(branchNodes, node, branch);
+      const settled = existing.some(n => n.pinned)
+          ? settleAroundPinned(branchNodes, ideal, branch.kind, branch.spacing, branch.sizes)
+          : ideal;
+      const positions = new Map(settled.map(n => [n.id, n]));
+
+      // The expanded node opens if it was collapsed, so the new ideas show
+      const merged = [...nodes, ...newNodes].map(n => {
+          if (n.id === id) return n.collapsed ? withCollapsed(n, false) : n;
+          const placed = positions.get(n.id);
+          return placed ? { ...n, x: placed.x, y: placed.y } : n;
+      });
+      commitChange(`AI expand ${nameOf(node)}`, merged);
+      if (fixes.length > 0) {
+          showNotice(`Repaired AI output: ${fixes.join('; ')}.`);
+      }
+    } catch (error) {
+      showAIError(error, () => handleNodeExpand(id), "AI expand cancelled.");
+    } finally {
+      expandAbortRef.current = null;
+      setExpandingNodeId(null);
+    }
+  };
+
+  // Pressed again while suggestions are loading, it cancels them
+  const handleSuggestLinks = async () => {
+    if (isSuggestingLinks) {
+        linksAbortRef.current?.abort();
+        return;
+    }
+    if (nodes.length < 3) return;
+
+    setIsSuggestingLinks(true);
+    clearError();
+    const controller = new AbortController();
+    linksAbortRef.current = controller;
+    try {
+      const suggested = normalizeLinks(
+          await suggestLinksWithAI(nodes, secondaryLinks, providerSettings, generationOptions, controller.signal),
+          nodes,
+          secondaryLinks
+      );
+      if (suggested.length === 0) {
+          showNotice("AI found no new connections to suggest.");
+      } else {
+          setLinkSuggestions(suggested);
+      }
+    } catch (error) {
+      showAIError(error, handleSuggestLinks, "Link suggestions cancelled.");
+    } finally {
+      linksAbortRef.current = null;
+      setIsSuggestingLinks(false);
+    }
+  };
+
+  const handleApplyLinkSuggestions = (accepted: SecondaryLink[]) => {
+      // The map may have changed while the user was reviewing
+      commitChange('Add suggested cross-links', nodes, [...secondaryLinks, ...normalizeLinks(accepted, nodes, secondaryLinks)]);
+      setLinkSuggestions(null);
+  };
+
   // --- Shortcuts ---
   useEffect(() => {
       const handleKeyDown = (e: KeyboardEvent) => {
           const target = e.target as HTMLElement;
-          if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+          if (sharedMap || target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
 
           if ((e.metaKey || e.ctrlKey) && e.key === 'z') {
               e.preventDefault();
@@ -290,9 +1023,23 @@ function App() {
               return;
           }
 
+          if ((e.metaKey || e.ctrlKey) && e.key === 'a') {
+              e.preventDefault();
+              const hidden = getHiddenIds(nodes);
+              setSelectedNodeIds(nodes.filter(n => !hidden.has(n.id)).map(n => n.id));
+              return;
+          }
+
           if (!selectedNodeId) return;
 
           switch (e.key) {
+              case ' ':
+                  e.preventDefault();
+                  handleToggleCollapse(selectedNodeIds);
+                  break;
+              case 'Escape':
+                  setSelectedNodeIds([]);
+                  break;
               case 'Tab':
                   e.preventDefault();
                   handleNodeAdd(selectedNodeId);
@@ -302,79 +1049,216 @@ function App() {
                   handleNodeAddSibling(selectedNodeId);
                   break;
               case 'Backspace':
-              case 'Delete':
-                  if (selectedNodeId !== 'root') {
+              case 'Delete': {
+                  // The root stays; everything else selected goes
+                  const deletable = selectedNodeIds.filter(id => nodes.find(n => n.id === id)?.parentId);
+                  if (deletable.length > 0) {
                       e.preventDefault();
-                      handleNodeDelete(selectedNodeId);
+                      handleNodesDelete(deletable);
                   }
                   break;
+              }
           }
       };
 
       window.addEventListener('keydown', handleKeyDown);
       return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [selectedNodeId, handleNodeAdd, handleNodeAddSibling, handleNodeDelete, handleUndo, handleRedo]);
+  }, [sharedMap, nodes, selectedNodeIds, selectedNodeId, handleNodeAdd, handleNodeAddSibling, handleNodesDelete, handleToggleCollapse, handleUndo, handleRedo]);
+
+  // Ctrl+C/X/V go through the native clipboard events, which can hold the branch as JSON and as a text outline at once
+  useEffect(() => {
+      // Leave text fields and selected page text to the browser
+      const isForCanvas = (e: ClipboardEvent) => {
+          const target = e.target as HTMLElement;
+          return !sharedMap && target.tagName !== 'INPUT' && target.tagName !== 'TEXTAREA' && !window.getSelection()?.toString();
+      };
+
+      const copySelection = (e: ClipboardEvent) => {
+          if (!isForCanvas(e) || !e.clipboardData) return null;
+          const data = copyBranches(nodes, secondaryLinks, selectedNodeIds);
+          if (!data) return null;
+          e.preventDefault();
+          writeClipboard(e.clipboardData, data);
+          return data;
+      };
+
+      const handleCopyEvent = (e: ClipboardEvent) => {
+          const data = copySelection(e);
+          if (data) showNotice(`Copied ${data.nodes.length} node${data.nodes.length === 1 ? '' : 's'}.`);
+      };
+
+      const handleCutEvent = (e: ClipboardEvent) => {
+          // The root is copied but stays
+          if (copySelection(e)) handleNodesDelete(selectedNodeIds.filter(id => nodes.find(n => n.id === id)?.parentId));
+      };
+
+      const handlePasteEvent = (e: ClipboardEvent) => {
+          if (!isForCanvas(e) || !e.clipboardData) return;
+          const parent = nodes.find(n => n.id === selectedNodeId) || nodes.find(n => n.parentId === null);
+          if (!parent) return;
+          try {
+              const data = readClipboard(e.clipboardData);
+              if (!data) return;
+              e.preventDefault();
+              const pasted = pasteBranches(nodes, secondaryLinks, data, parent.id, layoutOptions.kind, layoutOptions.spacing[layoutOptions.kind]);
+              commitChange(`Paste ${data.nodes.length} node${data.nodes.length === 1 ? '' : 's'} under ${nameOf(parent)}`, pasted.nodes, pasted.links);
+              setSelectedNodeIds(pasted.pastedIds);
+          } catch (err: any) {
+              console.error(err);
+              setErrorMsg(`Could not paste: ${err.message}`);
+          }
+      };
+
+      document.addEventListener('copy', handleCopyEvent);
+      document.addEventListener('cut', handleCutEvent);
+      document.addEventListener('paste', handlePasteEvent);
+      return () => {
+          document.removeEventListener('copy', handleCopyEvent);
+          document.removeEventListener('cut', handleCutEvent);
+          document.removeEventListener('paste', handlePasteEvent);
+      };
+  }, [sharedMap, nodes, secondaryLinks, selectedNodeIds, selectedNodeId, layoutOptions, handleNodesDelete, commitChange]);
 
   return (
     <div className="w-screen h-screen relative overflow-hidden bg-slate-950 text-slate-200 flex">
-      <input type="file" ref={fileInputRef} onChange={handleFileChange} className="hidden" accept=".json" />
+      <input type="file" ref={fileInputRef} onChange={handleFileChange} className="hidden" accept=".json,.md,.markdown,.mm,.opml" />
+
+      {isLibraryOpen && (
+          <div className="relative z-50 h-full animate-in slide-in-from-left duration-300">
+              <LibrarySidebar
+                  maps={library}
+                  currentMapId={currentMapId}
+                  onOpen={handleOpenMap}
+                  onCreate={handleCreateMap}
+                  onRename={handleRenameMap}
+                  onDuplicate={handleDuplicateMap}
+                  onDelete={handleDeleteMap}
+                  onClose={() => setIsLibraryOpen(false)}
+              />
+          </div>
+      )}
       
       <div className="flex-1 relative h-full flex flex-col">
           
           {/* Main Toolbar */}
           <div className="absolute top-4 left-1/2 -translate-x-1/2 z-40 bg-slate-900/90 backdrop-blur-md border border-slate-700 p-1.5 rounded-2xl shadow-xl flex items-center gap-1.5">
+            <button
+                onClick={() => setIsLibraryOpen(open => !open)}
+                className={`p-2 rounded-lg transition-colors ${isLibraryOpen ? 'text-white bg-slate-800' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+                title="My Maps"
+            >
+                <Library size={18} />
+            </button>
             <div className="flex items-center gap-2 px-3 border-r border-slate-700 mr-1">
                 <span className="font-bold tracking-tight bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-purple-400">MindGenius</span>
                 <span className="text-xs font-mono bg-slate-800 px-1.5 py-0.5 rounded text-slate-400">PRO</span>
             </div>
 
             <div className="flex items-center gap-1">
-                <button onClick={handleUndo} disabled={history.past.length === 0} className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg disabled:opacity-30 transition-colors" title="Undo (Ctrl+Z)">
+                <button onClick={handleUndo} disabled={collab ? !collabHistory.canUndo : history.cursor === 0} className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg disabled:opacity-30 transition-colors" title="Undo (Ctrl+Z)">
                     <Undo2 size={18} />
                 </button>
-                <button onClick={handleRedo} disabled={history.future.length === 0} className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg disabled:opacity-30 transition-colors" title="Redo (Ctrl+Y)">
+                <button onClick={handleRedo} disabled={collab ? !collabHistory.canRedo : history.cursor === history.entries.length} className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg disabled:opacity-30 transition-colors" title="Redo (Ctrl+Y)">
                     <Redo2 size={18} />
                 </button>
+                <HistoryPanel
+                    history={history}
+                    onJump={handleHistoryJump}
+                    disabledReason={collab ? 'History is per person in a session; use Undo and Redo' : undefined}
+                />
             </div>
 
             <div className="w-px h-6 bg-slate-700 mx-1"></div>
 
             <button 
-                onClick={() => setIsModalOpen(true)}
+                onClick={status === AppStatus.GENERATING ? handleCancelGenerate : () => setIsModalOpen(true)}
                 className="flex items-center gap-2 px-3 py-2 rounded-xl bg-blue-600 hover:bg-blue-500 text-white text-sm font-semibold transition-all shadow-lg shadow-blue-900/20 active:scale-95"
+                title={status === AppStatus.GENERATING ? 'Cancel generation' : undefined}
             >
-                <Wand2 size={16} />
-                AI Generate
+                {status === AppStatus.GENERATING ? <Loader2 size={16} className="animate-spin" /> : <Wand2 size={16} />}
+                {status === AppStatus.GENERATING ? `Generating… ${streamedNodeCount} nodes` : 'AI Generate'}
             </button>
 
-            <div className="w-px h-6 bg-slate-700 mx-1"></div>
-
-            <button 
-                onClick={() => handleAutoLayout('horizontal')}
-                className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors flex items-center gap-2"
-                title="Auto Layout (Horizontal)"
-            >
-                <Layout size={18} />
-            </button>
             <button 
-                onClick={() => handleAutoLayout('vertical')}
-                className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors flex items-center gap-2"
-                title="Auto Layout (Vertical)"
+                onClick={handleSuggestLinks}
+                disabled={!isSuggestingLinks && nodes.length < 3}
+                className="p-2 text-amber-400 hover:text-amber-200 hover:bg-slate-800 rounded-lg transition-colors disabled:opacity-30"
+                title={isSuggestingLinks ? 'Cancel suggestions' : 'Suggest Connections (AI)'}
             >
-                <Layout size={18} className="rotate-90" />
+                {isSuggestingLinks ? <Loader2 size={18} className="animate-spin" /> : <Link2 size={18} />}
             </button>
 
+            <div className="w-px h-6 bg-slate-700 mx-1"></div>
+
+            <LayoutMenu
+                options={layoutOptions}
+                onOptionsChange={handleLayoutOptionsChange}
+                onApply={handleAutoLayout}
+                onSpacingChangeEnd={handleGestureEnd}
+                pinnedCount={nodes.filter(n => n.pinned).length}
+                onUnpinAll={handleUnpinAll}
+            />
+            <ExportMenu
+                icon={<ChevronsDownUp size={18} />}
+                title="Collapse / Expand (Space on selection)"
+                options={[
+                    { id: 'expand-all', label: 'Expand all', hint: 'Show every branch', onSelect: handleExpandAll },
+                    ...[1, 2, 3].map(level => ({
+                        id: `level-${level}`,
+                        label: `Collapse to level ${level}`,
+                        hint: level === 1 ? 'Only the main branches' : `Show ${level} levels below the root`,
+                        onSelect: () => handleCollapseToLevel(level),
+                    })),
+                ]}
+            />
+
              <div className="flex items-center gap-1">
-                <button onClick={handleExport} className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors" title="Export JSON">
-                    <Download size={18} />
-                </button>
-                <button onClick={handleImportClick} className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors" title="Import JSON">
+                <ExportMenu
+                    options={[
+                        { id: 'image', label: 'Image…', hint: 'SVG, PNG or PDF of the whole map', onSelect: () => setIsImageExportOpen(true) },
+                        { id: 'json', label: 'JSON', hint: 'Full map, for re-importing', onSelect: handleExport },
+                        { id: 'markdown', label: 'Markdown outline', hint: 'Headings and bullets, links under "Related"', onSelect: handleExportMarkdown },
+                        { id: 'freemind', label: 'FreeMind / Freeplane', hint: '.mm with notes, colors and arrow links', onSelect: handleExportFreeMind },
+                        { id: 'opml', label: 'OPML', hint: 'Outline for outliners and note apps', onSelect: handleExportOpml },
+                        { id: 'mermaid', label: 'Mermaid flowchart', hint: '.mmd with styles and cross-links', onSelect: () => handleExportMermaid('flowchart') },
+                        { id: 'mermaid-mindmap', label: 'Mermaid mindmap', hint: '.mmd with hierarchy and shapes only', onSelect: () => handleExportMermaid('mindmap') },
+                        { id: 'dot', label: 'Graphviz DOT', hint: '.dot with styles and cross-links', onSelect: handleExportDot },
+                    ]}
+                />
+                <ExportMenu
+                    icon={<ClipboardCopy size={18} />}
+                    title="Copy as text"
+                    options={[
+                        { id: 'mermaid-flowchart', label: 'Mermaid flowchart', hint: 'Styles as classDefs, cross-links dotted', onSelect: () => handleCopy(mindMapToMermaidFlowchart(nodes, secondaryLinks), 'a Mermaid flowchart') },
+                        { id: 'mermaid-mindmap', label: 'Mermaid mindmap', hint: 'Hierarchy and shapes only', onSelect: () => handleCopy(mindMapToMermaidMindmap(nodes), 'a Mermaid mindmap') },
+                        { id: 'dot', label: 'Graphviz DOT', hint: 'Styles as node attributes, cross-links dashed', onSelect: () => handleCopy(mindMapToDot(nodes, secondaryLinks), 'Graphviz DOT') },
+                        { id: 'markdown', label: 'Markdown outline', hint: 'Headings and bullets', onSelect: () => handleCopy(mindMapToMarkdown(nodes, secondaryLinks), 'a Markdown outline') },
+                    ]}
+                />
+                <button onClick={handleImportClick} className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors" title="Import JSON, Markdown, FreeMind or OPML">
                     <Upload size={18} />
                 </button>
             </div>
 
              <div className="w-px h-6 bg-slate-700 mx-1"></div>
 
+            <CollabMenu
+                settings={collabSettings}
+                onSettingsChange={handleCollabSettingsChange}
+                status={collabStatus}
+                collaborators={collaborators}
+                onStart={handleStartCollab}
+                onCopyLink={handleCopyInviteLink}
+                onLeave={leaveCollab}
+            />
+            <button
+                onClick={handleShareLink}
+                className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
+                title="Copy read-only link"
+            >
+                <Share2 size={18} />
+            </button>
+
             <button 
                 onClick={handleReset}
                 className="p-2 text-red-400 hover:text-red-200 hover:bg-slate-800 rounded-lg transition-colors"
@@ -387,21 +1271,57 @@ function App() {
           <MindMapCanvas 
             nodes={nodes}
             secondaryLinks={secondaryLinks}
-            selectedNodeId={selectedNodeId}
-            onNodeSelect={setSelectedNodeId}
+            selectedNodeIds={selectedNodeIds}
+            onSelectionChange={setSelectedNodeIds}
             onNodeUpdate={handleNodeUpdate}
             onNodeMove={handleNodeMove}
+            onNodeMoveEnd={handleGestureEnd}
             onNodeAdd={handleNodeAdd}
             onNodeDelete={handleNodeDelete}
             onNodeReparent={handleNodeReparent}
             onLinkAdd={handleLinkAdd}
+            onNodeExpand={handleNodeExpand}
+            onToggleCollapse={(id) => handleToggleCollapse([id])}
+            expandingNodeId={expandingNodeId}
+            collaborators={collaborators}
+            onCursorMove={collab ? (point) => collab.setPresence({ cursor: point }) : undefined}
+            onNodeSizesChange={handleNodeSizesChange}
           />
 
           {errorMsg && (
-            <div className="absolute bottom-8 left-1/2 -translate-x-1/2 z-50 animate-bounce">
-              <div className="bg-red-500/90 text-white px-6 py-3 rounded-full shadow-lg backdrop-blur flex items-center gap-3">
-                 <span>{errorMsg}</span>
-                 <button onClick={() => setErrorMsg(null)} className="hover:bg-red-600 rounded-full p-1"><Plus size={16} className="rotate-45"/></button>
+            // Above the generate modal, so failures while it is open stay visible
+            <div className={`absolute bottom-8 left-1/2 -translate-x-1/2 z-[60] ${failure ? '' : 'animate-bounce'}`}>
+              <div className="bg-red-500/90 text-white px-6 py-3 rounded-full shadow-lg backdrop-blur flex items-center gap-3 max-w-3xl">
+                 <span className="flex flex-col">
+                    <span>{errorMsg}</span>
+                    {failure && <span className="text-xs text-red-100">{RECOVERY[failure.kind].hint}</span>}
+                 </span>
+                 {failure && RECOVERY[failure.kind].canRetry && (
+                    <button
+                        onClick={() => { const { retry } = failure; clearError(); retry(); }}
+                        className="shrink-0 flex items-center gap-1.5 bg-white/20 hover:bg-white/30 px-3 py-1 rounded-full text-sm font-medium"
+                    >
+                        <RotateCcw size={14} /> Retry
+                    </button>
+                 )}
+                 {failure && RECOVERY[failure.kind].settingsLabel && (
+                    <button
+                        onClick={() => { clearError(); setIsModalOpen(true); }}
+                        className="shrink-0 bg-white/20 hover:bg-white/30 px-3 py-1 rounded-full text-sm font-medium"
+                    >
+                        {RECOVERY[failure.kind].settingsLabel}
+                    </button>
+                 )}
+                 <button onClick={clearError} className="hover:bg-red-600 rounded-full p-1"><Plus size={16} className="rotate-45"/></button>
+              </div>
+            </div>
+          )}
+
+          {noticeMsg && !errorMsg && (
+            <div className="absolute bottom-8 left-1/2 -translate-x-1/2 z-50">
+              <div className="bg-blue-600/90 text-white px-6 py-3 rounded-full shadow-lg backdrop-blur flex items-center gap-3 max-w-2xl">
+                 <span className="text-sm">{noticeMsg}</span>
+                 <button onClick={() => setNoticeMsg(null)} className="hover:bg-blue-700 rounded-full p-1"><Plus size={16} className="rotate-45"/></button>
               </div>
             </div>
           )}
@@ -417,10 +1337,18 @@ function App() {
       {selectedNode && (
           <div className="relative z-50 h-full border-l border-slate-800 bg-slate-900 shadow-2xl animate-in slide-in-from-right duration-300">
               <PropertiesPanel 
-                  node={selectedNode}
+                  nodes={selectedNodes}
                   onUpdate={handleNodeUpdate}
+                  onStyleChange={handleSelectionStyle}
                   onClose={() => setSelectedNodeId(null)}
-                  onDelete={handleNodeDelete}
+                  onDelete={() => handleNodesDelete(selectedNodes.map(n => n.id))}
+                  onDuplicate={handleDuplicateSelection}
+                  onSelectBranch={handleSelectBranch}
+                  onExpand={handleNodeExpand}
+                  isExpanding={expandingNodeId === selectedNode.id}
+                  onAlign={handleAlign}
+                  onDistribute={handleDistribute}
+                  onTogglePin={handleTogglePin}
               />
           </div>
       )}
@@ -430,8 +1358,39 @@ function App() {
         onClose={() => setIsModalOpen(false)}
         onGenerate={handleGenerate}
         isLoading={status === AppStatus.GENERATING}
+        progress={chunkProgress}
+        onCancel={handleCancelGenerate}
+        selectedNodeLabel={selectedNode?.label}
+        providerSettings={providerSettings}
+        onProviderSettingsChange={handleProviderSettingsChange}
+        generationOptions={generationOptions}
+        onGenerationOptionsChange={handleGenerationOptionsChange}
       />
 
+      {isImageExportOpen && (
+          <ImageExportModal
+            nodes={nodes}
+            links={secondaryLinks}
+            onClose={() => setIsImageExportOpen(false)}
+          />
+      )}
+
+      {sharedMap && (
+          // Over the editor, which keeps loading the library underneath
+          <div className="fixed inset-0 z-[55] bg-slate-950 flex">
+              <SharedMapViewer data={sharedMap} onOpenCopy={handleOpenSharedCopy} onClose={closeSharedMap} />
+          </div>
+      )}
+
+      {linkSuggestions && (
+          <LinkSuggestionsModal
+            suggestions={linkSuggestions}
+            nodes={nodes}
+            onApply={handleApplyLinkSuggestions}
+            onClose={() => setLinkSuggestions(null)}
+          />
+      )}
+
     </div>
   );
 }
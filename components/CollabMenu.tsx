@@ -0,0 +1,122 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Users, Link2, LogOut } from 'lucide-react';
+import { Collaborator, CollabStatus } from '../types';
+import { CollabSettings, USER_COLORS } from '../services/collab';
+
+interface CollabMenuProps {
+  settings: CollabSettings;
+  onSettingsChange: (settings: CollabSettings) => void;
+  // Set while in a session
+  status: CollabStatus | null;
+  collaborators: Collaborator[];
+  onStart: () => void;
+  onCopyLink: () => void;
+  onLeave: () => void;
+}
+
+const STATUS_LABELS: Record<CollabStatus, { text: string, dot: string }> = {
+  connecting: { text: 'Connecting to the relay…', dot: 'bg-amber-400' },
+  waiting: { text: 'Waiting for someone with the map to join', dot: 'bg-amber-400' },
+  connected: { text: 'Live', dot: 'bg-emerald-400' },
+  offline: { text: 'Relay unreachable, retrying. Edits are kept and sent on reconnect.', dot: 'bg-red-400' },
+};
+
+const inputClass = "w-full bg-slate-950 border border-slate-800 rounded-lg px-3 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-blue-500";
+
+const CollabMenu: React.FC<CollabMenuProps> = ({ settings, onSettingsChange, status, collaborators, onStart, onCopyLink, onLeave }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+      if (!isOpen) return;
+      const close = (e: MouseEvent) => {
+          if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+      };
+      document.addEventListener('mousedown', close);
+      return () => document.removeEventListener('mousedown', close);
+  }, [isOpen]);
+
+  const updateUser = (changes: Partial<CollabSettings['user']>) =>
+      onSettingsChange({ ...settings, user: { ...settings.user, ...changes } });
+
+  return (
+    <div ref={menuRef} className="relative">
+        <button
+            onClick={() => setIsOpen(open => !open)}
+            className={`relative p-2 rounded-lg transition-colors ${isOpen || status ? 'text-white bg-slate-800' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+            title="Collaborate"
+        >
+            <Users size={18} />
+            {status && (
+                <span className={`absolute top-1 right-1 w-2 h-2 rounded-full ${STATUS_LABELS[status].dot}`} />
+            )}
+            {collaborators.length > 0 && (
+                <span className="absolute -bottom-1 -right-1 min-w-[16px] h-4 px-1 rounded-full bg-blue-600 text-[10px] leading-4 text-white">
+                    {collaborators.length}
+                </span>
+            )}
+        </button>
+        {isOpen && (
+            <div className="absolute top-full right-0 mt-2 w-72 bg-slate-900 border border-slate-700 rounded-xl shadow-2xl p-3 z-50 space-y-3">
+                <div className="space-y-1.5">
+                    <label className="text-[10px] font-bold uppercase tracking-wider text-slate-500">Your name</label>
+                    <input value={settings.user.name} onChange={(e) => updateUser({ name: e.target.value })} className={inputClass} />
+                    <div className="flex gap-1.5 pt-1">
+                        {USER_COLORS.map(color => (
+                            <button
+                                key={color}
+                                onClick={() => updateUser({ color })}
+                                className={`w-5 h-5 rounded-full border-2 ${settings.user.color === color ? 'border-white' : 'border-transparent'}`}
+                                style={{ backgroundColor: color }}
+                                title={color}
+                            />
+                        ))}
+                    </div>
+                </div>
+
+                {status ? (
+                    <>
+                        <div className="flex items-start gap-2 text-xs text-slate-300">
+                            <span className={`mt-1 shrink-0 w-2 h-2 rounded-full ${STATUS_LABELS[status].dot}`} />
+                            {STATUS_LABELS[status].text}
+                        </div>
+                        <ul className="space-y-1">
+                            <li className="flex items-center gap-2 text-sm text-slate-200">
+                                <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: settings.user.color }} />
+                                {settings.user.name} <span className="text-slate-500 text-xs">(you)</span>
+                            </li>
+                            {collaborators.map(peer => (
+                                <li key={peer.clientId} className="flex items-center gap-2 text-sm text-slate-300">
+                                    <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: peer.color }} />
+                                    {peer.name}
+                                </li>
+                            ))}
+                        </ul>
+                        <div className="flex gap-2">
+                            <button onClick={onCopyLink} className="flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-500 text-white text-sm font-medium transition-colors">
+                                <Link2 size={14} /> Copy invite link
+                            </button>
+                            <button onClick={onLeave} className="px-3 py-1.5 rounded-lg text-slate-300 hover:text-white hover:bg-slate-800 text-sm transition-colors" title="Leave session">
+                                <LogOut size={14} />
+                            </button>
+                        </div>
+                    </>
+                ) : (
+                    <>
+                        <div className="space-y-1.5">
+                            <label className="text-[10px] font-bold uppercase tracking-wider text-slate-500">Relay</label>
+                            <input value={settings.relayUrl} onChange={(e) => onSettingsChange({ ...settings, relayUrl: e.target.value })} className={`${inputClass} font-mono text-xs`} />
+                            <p className="text-[10px] text-slate-500">Start one with <code className="text-slate-400">npm run relay</code>.</p>
+                        </div>
+                        <button onClick={onStart} className="w-full px-3 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-500 text-white text-sm font-medium transition-colors">
+                            Start session for this map
+                        </button>
+                    </>
+                )}
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default CollabMenu;
@@ -0,0 +1,57 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download } from 'lucide-react';
+
+export interface ExportOption {
+  id: string;
+  label: string;
+  hint: string;
+  onSelect: () => void;
+}
+
+interface ExportMenuProps {
+  options: ExportOption[];
+  icon?: React.ReactNode;
+  title?: string;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ options, icon = <Download size={18} />, title = 'Export' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+      if (!isOpen) return;
+      const close = (e: MouseEvent) => {
+          if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+      };
+      document.addEventListener('mousedown', close);
+      return () => document.removeEventListener('mousedown', close);
+  }, [isOpen]);
+
+  return (
+    <div ref={menuRef} className="relative">
+        <button
+            onClick={() => setIsOpen(open => !open)}
+            className={`p-2 rounded-lg transition-colors ${isOpen ? 'text-white bg-slate-800' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+            title={title}
+        >
+            {icon}
+        </button>
+        {isOpen && (
+            <div className="absolute top-full right-0 mt-2 w-56 bg-slate-900 border border-slate-700 rounded-xl shadow-2xl p-1 z-50">
+                {options.map(option => (
+                    <button
+                        key={option.id}
+                        onClick={() => { setIsOpen(false); option.onSelect(); }}
+                        className="w-full text-left px-3 py-2 rounded-lg hover:bg-slate-800 transition-colors"
+                    >
+                        <div className="text-sm text-slate-200">{option.label}</div>
+                        <div className="text-[10px] text-slate-500">{option.hint}</div>
+                    </button>
+                ))}
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default ExportMenu;
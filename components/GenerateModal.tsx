@@ -1,19 +1,80 @@
 
-import React, { useState } from 'react';
-import { X, Sparkles, Loader2, FileText, Link as LinkIcon } from 'lucide-react';
+import React, { useRef, useState } from 'react';
+import { X, Sparkles, Loader2, FileText, Link as LinkIcon, Cpu, Paperclip, FileUp, SlidersHorizontal } from 'lucide-react';
+import { AIProviderId, AIProviderSettings, ChunkProgress, GenerationMode, GenerationOptions, GenerationPreset } from '../types';
+import { PROVIDERS, DEFAULT_TIMEOUT_SECONDS, MIN_TIMEOUT_SECONDS } from '../services/ai';
+import { PRESETS } from '../services/prompt';
+import { SUPPORTED_EXTENSIONS } from '../utils/documents';
 
 interface GenerateModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onGenerate: (text: string) => void;
+  onGenerate: (text: string, files: File[], mode: GenerationMode) => void;
   isLoading: boolean;
+  // Per-chunk state while a chunked generation runs, null otherwise
+  progress?: ChunkProgress[] | null;
+  onCancel: () => void;
+  // Label of the selected node, which 'append' adds the new branch under
+  selectedNodeLabel?: string;
+  providerSettings: AIProviderSettings;
+  onProviderSettingsChange: (settings: AIProviderSettings) => void;
+  generationOptions: GenerationOptions;
+  onGenerationOptionsChange: (options: GenerationOptions) => void;
 }
 
-const GenerateModal: React.FC<GenerateModalProps> = ({ isOpen, onClose, onGenerate, isLoading }) => {
+const MODES: { id: GenerationMode, label: string }[] = [
+  { id: 'replace', label: 'Replace map' },
+  { id: 'append', label: 'Append as branch' },
+  { id: 'merge', label: 'Merge into map' },
+];
+
+const MODE_HINTS: Record<GenerationMode, string> = {
+  replace: 'Clears the canvas and its cross-links, then draws the new map.',
+  append: 'Adds the new map as a new branch under the selected node.',
+  merge: 'Adds only topics that are not already on the map, matched by label.',
+};
+
+const inputClass = "w-full bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50";
+
+const GenerateModal: React.FC<GenerateModalProps> = ({ isOpen, onClose, onGenerate, isLoading, progress, onCancel, selectedNodeLabel, providerSettings, onProviderSettingsChange, generationOptions, onGenerationOptionsChange }) => {
   const [text, setText] = useState('');
+  const [mode, setMode] = useState<GenerationMode>('replace');
+  const [files, setFiles] = useState<File[]>([]);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   if (!isOpen) return null;
 
+  const provider = PROVIDERS[providerSettings.provider];
+  const activeMode = mode === 'append' && !selectedNodeLabel ? 'replace' : mode;
+
+  const doneChunks = progress ? progress.filter(p => p.status === 'done').length : 0;
+  const failedChunks = progress ? progress.filter(p => p.status === 'failed').length : 0;
+  const progressSources = progress ? Array.from(new Set(progress.map(p => p.source))) : [];
+
+  const canGenerate = (text.trim().length > 0 || files.length > 0) && !isLoading;
+
+  const updateSettings = (changes: Partial<AIProviderSettings>) => {
+      onProviderSettingsChange({ ...providerSettings, ...changes });
+  };
+
+  const updateOptions = (changes: Partial<GenerationOptions>) => {
+      onGenerationOptionsChange({ ...generationOptions, ...changes });
+  };
+
+  const addFiles = (list: FileList | null) => {
+      if (!list) return;
+      const incoming = Array.from(list);
+      // Same name and size is treated as the same file being dropped twice
+      setFiles(prev => [...prev, ...incoming.filter(f => !prev.some(p => p.name === f.name && p.size === f.size))]);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+      e.preventDefault();
+      setIsDragOver(false);
+      addFiles(e.dataTransfer.files);
+  };
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
       <div className="bg-slate-900 border border-slate-700 rounded-2xl w-full max-w-2xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
@@ -33,7 +94,12 @@ const GenerateModal: React.FC<GenerateModalProps> = ({ isOpen, onClose, onGenera
         </div>
 
         {/* Body */}
-        <div className="p-6 flex-1 overflow-y-auto">
+        <div
+            className={`p-6 flex-1 overflow-y-auto transition-colors ${isDragOver ? 'bg-blue-900/10' : ''}`}
+            onDragOver={(e) => { e.preventDefault(); setIsDragOver(true); }}
+            onDragLeave={() => setIsDragOver(false)}
+            onDrop={handleDrop}
+        >
             <div className="mb-4">
                 <label className="block text-sm font-medium text-slate-300 mb-2">
                     Paste content to analyze
@@ -50,6 +116,183 @@ const GenerateModal: React.FC<GenerateModalProps> = ({ isOpen, onClose, onGenera
                     </div>
                 </div>
             </div>
+
+            <div className="mb-4">
+                <input
+                    type="file"
+                    ref={fileInputRef}
+                    multiple
+                    accept={SUPPORTED_EXTENSIONS.join(',')}
+                    className="hidden"
+                    onChange={(e) => { addFiles(e.target.files); e.target.value = ''; }}
+                />
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className={`w-full flex items-center justify-center gap-2 py-3 rounded-xl border-2 border-dashed text-sm transition-colors ${
+                        isDragOver ? 'border-blue-500 text-blue-300' : 'border-slate-700 text-slate-400 hover:border-slate-500 hover:text-slate-200'
+                    }`}
+                >
+                    <FileUp size={16} />
+                    Drop files here or click to add (Markdown, text, PDF, DOCX, HTML)
+                </button>
+                {files.length > 0 && (
+                    <ul className="mt-2 space-y-1">
+                        {files.map((f, i) => (
+                            <li key={`${f.name}-${i}`} className="flex items-center gap-2 text-xs text-slate-300 bg-slate-950 border border-slate-800 rounded-lg px-3 py-1.5">
+                                <Paperclip size={12} className="text-slate-500" />
+                                <span className="flex-1 truncate">{f.name}</span>
+                                <span className="text-slate-500">{Math.max(1, Math.round(f.size / 1024))} KB</span>
+                                <button onClick={() => setFiles(prev => prev.filter((_, j) => j !== i))} className="text-slate-500 hover:text-white">
+                                    <X size={12} />
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+
+            <div className="mb-4">
+                <div className="flex bg-slate-800 rounded-lg p-1 border border-slate-700">
+                    {MODES.map(m => (
+                        <button
+                            key={m.id}
+                            onClick={() => setMode(m.id)}
+                            disabled={m.id === 'append' && !selectedNodeLabel}
+                            title={m.id === 'append' && !selectedNodeLabel ? 'Select a node on the canvas first' : undefined}
+                            className={`
+                                flex-1 py-1.5 text-xs font-medium rounded transition-all disabled:opacity-40 disabled:cursor-not-allowed
+                                ${activeMode === m.id ? 'bg-slate-600 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'}
+                            `}
+                        >
+                            {m.label}
+                        </button>
+                    ))}
+                </div>
+                <p className="text-xs text-slate-500 mt-2">
+                    {MODE_HINTS[activeMode]}
+                </p>
+            </div>
+
+            <div className="mb-4 bg-slate-950/50 border border-slate-800 rounded-xl p-4 space-y-3">
+                <div className="flex items-center gap-2 text-sm font-medium text-slate-300">
+                    <SlidersHorizontal size={16} className="text-blue-400" />
+                    Map Shape
+                </div>
+                <div className="flex flex-wrap gap-2">
+                    {(Object.keys(PRESETS) as GenerationPreset[]).map(id => (
+                        <button
+                            key={id}
+                            onClick={() => updateOptions({ preset: id })}
+                            className={`px-3 py-1 rounded-full text-xs border transition-colors ${
+                                generationOptions.preset === id
+                                    ? 'bg-blue-600/20 border-blue-500 text-blue-200'
+                                    : 'bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-600'
+                            }`}
+                        >
+                            {PRESETS[id].label}
+                        </button>
+                    ))}
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                    <label className="text-xs text-slate-400 space-y-1">
+                        <span>Max depth</span>
+                        <input
+                            type="number" min={1} max={8}
+                            value={generationOptions.maxDepth}
+                            onChange={(e) => updateOptions({ maxDepth: Math.min(8, Math.max(1, Number(e.target.value) || 1)) })}
+                            className={inputClass}
+                        />
+                    </label>
+                    <label className="text-xs text-slate-400 space-y-1">
+                        <span>Max children per node</span>
+                        <input
+                            type="number" min={1} max={20}
+                            value={generationOptions.maxChildren}
+                            onChange={(e) => updateOptions({ maxChildren: Math.min(20, Math.max(1, Number(e.target.value) || 1)) })}
+                            className={inputClass}
+                        />
+                    </label>
+                    <label className="text-xs text-slate-400 space-y-1">
+                        <span>Output language</span>
+                        <input
+                            value={generationOptions.language}
+                            onChange={(e) => updateOptions({ language: e.target.value })}
+                            placeholder="Same as source"
+                            className={inputClass}
+                        />
+                    </label>
+                    <label className="text-xs text-slate-400 space-y-1">
+                        <span>Label length</span>
+                        <select
+                            value={generationOptions.labelLength}
+                            onChange={(e) => updateOptions({ labelLength: e.target.value as GenerationOptions['labelLength'] })}
+                            className={inputClass}
+                        >
+                            <option value="short">Short (1-3 words)</option>
+                            <option value="medium">Medium (1-5 words)</option>
+                            <option value="long">Long (3-10 words)</option>
+                        </select>
+                    </label>
+                </div>
+            </div>
+
+            <div className="mb-4 bg-slate-950/50 border border-slate-800 rounded-xl p-4 space-y-3">
+                <div className="flex items-center gap-2 text-sm font-medium text-slate-300">
+                    <Cpu size={16} className="text-blue-400" />
+                    Model Provider
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                    <select
+                        value={providerSettings.provider}
+                        onChange={(e) => updateSettings({ provider: e.target.value as AIProviderId, model: undefined, baseUrl: undefined, apiKey: undefined })}
+                        className={inputClass}
+                    >
+                        {Object.values(PROVIDERS).map(p => (
+                            <option key={p.id} value={p.id}>{p.label}</option>
+                        ))}
+                    </select>
+                    <input
+                        value={providerSettings.model || ''}
+                        onChange={(e) => updateSettings({ model: e.target.value || undefined })}
+                        placeholder={provider.defaultModel}
+                        className={inputClass}
+                    />
+                    {provider.defaultBaseUrl && (
+                        <input
+                            value={providerSettings.baseUrl || ''}
+                            onChange={(e) => updateSettings({ baseUrl: e.target.value || undefined })}
+                            placeholder={provider.defaultBaseUrl}
+                            className={inputClass}
+                        />
+                    )}
+                    {provider.requiresApiKey && (
+                        <input
+                            type="password"
+                            value={providerSettings.apiKey || ''}
+                            onChange={(e) => updateSettings({ apiKey: e.target.value || undefined })}
+                            placeholder={provider.id === 'gemini' ? 'API key (defaults to GEMINI_API_KEY)' : 'API key'}
+                            className={inputClass}
+                        />
+                    )}
+                    <label className="flex items-center gap-2 text-xs text-slate-400">
+                        Timeout
+                        <input
+                            type="number"
+                            min={MIN_TIMEOUT_SECONDS}
+                            value={providerSettings.timeoutSeconds || ''}
+                            onChange={(e) => updateSettings({ timeoutSeconds: Number(e.target.value) || undefined })}
+                            // Typing may pass through short values; the saved timeout never goes below the minimum
+                            onBlur={() => {
+                                const seconds = providerSettings.timeoutSeconds;
+                                if (seconds && seconds < MIN_TIMEOUT_SECONDS) updateSettings({ timeoutSeconds: MIN_TIMEOUT_SECONDS });
+                            }}
+                            placeholder={String(DEFAULT_TIMEOUT_SECONDS)}
+                            className={inputClass}
+                        />
+                        seconds
+                    </label>
+                </div>
+            </div>
             
             <div className="bg-blue-900/20 border border-blue-900/50 rounded-lg p-4 flex flex-col gap-2">
                 <div className="flex items-start gap-3">
@@ -59,7 +302,7 @@ const GenerateModal: React.FC<GenerateModalProps> = ({ isOpen, onClose, onGenera
                     <div>
                         <h4 className="text-sm font-semibold text-blue-200">Text Mode</h4>
                         <p className="text-xs text-blue-300/80">
-                            Paste articles, notes, or outlines. The AI will structure them into a hierarchy.
+                            Paste articles, notes, or outlines, or add files. With several sources each one becomes a branch, and every node notes which source it came from.
                         </p>
                     </div>
                 </div>
@@ -72,26 +315,56 @@ const GenerateModal: React.FC<GenerateModalProps> = ({ isOpen, onClose, onGenera
                         <h4 className="text-sm font-semibold text-blue-200">Web Mode</h4>
                         <p className="text-xs text-blue-300/80">
                             Paste a URL (http/https). The AI will research the page and create a map from its content.
+                            {!provider.supportsWebSearch && ` Not available with ${provider.label}.`}
                         </p>
                     </div>
                 </div>
             </div>
         </div>
 
+        {/* Chunk Progress */}
+        {(isLoading || failedChunks > 0) && progress && progress.length > 0 && (
+            <div className="px-6 py-4 border-t border-slate-800 space-y-2">
+                <div className="flex justify-between text-xs text-slate-400">
+                    <span>Processing in {progress.length} chunks</span>
+                    <span>{doneChunks} / {progress.length} done{failedChunks > 0 && `, ${failedChunks} failed`}</span>
+                </div>
+                {progressSources.map(source => (
+                    <div key={source} className="flex items-center gap-3">
+                        <span className="w-32 truncate text-xs text-slate-500" title={source}>{source}</span>
+                        <div className="flex-1 flex flex-wrap gap-1">
+                            {progress.filter(p => p.source === source).map(p => (
+                                <div
+                                    key={p.chunk}
+                                    title={`Chunk ${p.chunk + 1}: ${p.status}`}
+                                    className={`h-2 w-6 rounded-full ${
+                                        p.status === 'done' ? 'bg-blue-500' :
+                                        p.status === 'running' ? 'bg-blue-400/60 animate-pulse' :
+                                        p.status === 'failed' ? 'bg-red-500' :
+                                        'bg-slate-700'
+                                    }`}
+                                />
+                            ))}
+                        </div>
+                    </div>
+                ))}
+            </div>
+        )}
+
         {/* Footer */}
         <div className="p-4 border-t border-slate-800 bg-slate-900/50 flex justify-end gap-3">
           <button 
-            onClick={onClose}
+            onClick={isLoading ? onCancel : onClose}
             className="px-4 py-2 rounded-lg text-slate-300 hover:text-white hover:bg-slate-800 transition-colors text-sm font-medium"
           >
             Cancel
           </button>
           <button 
-            onClick={() => onGenerate(text)}
-            disabled={!text.trim() || isLoading}
+            onClick={() => onGenerate(text, files, activeMode)}
+            disabled={!canGenerate}
             className={`
                 px-6 py-2 rounded-lg flex items-center gap-2 text-sm font-medium text-white transition-all
-                ${!text.trim() || isLoading ? 'bg-slate-700 cursor-not-allowed opacity-50' : 'bg-blue-600 hover:bg-blue-500 shadow-lg shadow-blue-600/20'}
+                ${!canGenerate ? 'bg-slate-700 cursor-not-allowed opacity-50' : 'bg-blue-600 hover:bg-blue-500 shadow-lg shadow-blue-600/20'}
             `}
           >
             {isLoading ? <Loader2 size={16} className="animate-spin" /> : <Sparkles size={16} />}
@@ -0,0 +1,71 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { History as HistoryIcon } from 'lucide-react';
+import { EditHistory, MAX_HISTORY_BYTES, historySize } from '../utils/history';
+
+interface HistoryPanelProps {
+  history: EditHistory;
+  onJump: (cursor: number) => void;
+  // Set in a collaborative session, where only undo and redo apply
+  disabledReason?: string;
+}
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const formatTime = (time: number) => new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onJump, disabledReason }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+      if (!isOpen) return;
+      const close = (e: MouseEvent) => {
+          if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+      };
+      document.addEventListener('mousedown', close);
+      return () => document.removeEventListener('mousedown', close);
+  }, [isOpen]);
+
+  const rowClass = (isCurrent: boolean, isUndone: boolean) => `w-full flex items-center justify-between gap-3 text-left px-3 py-1.5 rounded-lg transition-colors ${
+      isCurrent ? 'bg-blue-600/20 text-blue-200' : isUndone ? 'text-slate-500 hover:bg-slate-800' : 'text-slate-200 hover:bg-slate-800'
+  }`;
+
+  return (
+    <div ref={menuRef} className="relative">
+        <button
+            onClick={() => setIsOpen(open => !open)}
+            disabled={!!disabledReason}
+            className={`p-2 rounded-lg transition-colors disabled:opacity-30 ${isOpen ? 'text-white bg-slate-800' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+            title={disabledReason || 'History'}
+        >
+            <HistoryIcon size={18} />
+        </button>
+        {isOpen && !disabledReason && (
+            <div className="absolute top-full left-0 mt-2 w-72 bg-slate-900 border border-slate-700 rounded-xl shadow-2xl p-1 z-50">
+                <div className="max-h-80 overflow-y-auto">
+                    {/* Newest first; the step you are on is highlighted, undone steps are dimmed */}
+                    {[...history.entries].reverse().map((entry, i) => {
+                        const cursor = history.entries.length - i;
+                        return (
+                            <button key={entry.id} onClick={() => onJump(cursor)} className={rowClass(cursor === history.cursor, cursor > history.cursor)}>
+                                <span className="text-sm truncate">{entry.label}</span>
+                                <span className="text-[10px] text-slate-500 shrink-0">{formatTime(entry.time)}</span>
+                            </button>
+                        );
+                    })}
+                    <button onClick={() => onJump(0)} className={rowClass(history.cursor === 0, false)}>
+                        <span className="text-sm italic">{history.truncated ? 'Oldest kept step' : 'Opened map'}</span>
+                    </button>
+                </div>
+                <div className="px-3 py-1.5 mt-1 border-t border-slate-800 text-[10px] text-slate-500">
+                    {history.entries.length} steps · {formatBytes(historySize(history))} of {formatBytes(MAX_HISTORY_BYTES)}
+                    {history.truncated && ' · older steps were dropped'}
+                </div>
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
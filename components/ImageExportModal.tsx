@@ -0,0 +1,164 @@
+import React, { useMemo, useState } from 'react';
+import { X, Image as ImageIcon, Download, Loader2 } from 'lucide-react';
+import { MindMapNode, SecondaryLink } from '../types';
+import { DEFAULT_IMAGE_EXPORT_OPTIONS, ImageExportOptions, ImageFormat, renderMindMapSvg, exportPng, exportPdf } from '../utils/exportImage';
+import { downloadBlob, downloadText, datedFilename } from '../utils/download';
+
+interface ImageExportModalProps {
+  nodes: MindMapNode[];
+  links: SecondaryLink[];
+  onClose: () => void;
+}
+
+const FORMATS: { id: ImageFormat, label: string, hint: string }[] = [
+  { id: 'svg', label: 'SVG', hint: 'Vector, scales to any size' },
+  { id: 'png', label: 'PNG', hint: 'Image at the chosen scale' },
+  { id: 'pdf', label: 'PDF', hint: 'A4 pages for printing' },
+];
+
+const SCALES = [1, 2, 3, 4];
+
+const chipClass = (active: boolean) => `px-3 py-1.5 rounded-lg border text-xs font-medium transition-colors ${
+  active ? 'bg-blue-600/20 border-blue-500 text-blue-200' : 'bg-slate-950 border-slate-800 text-slate-400 hover:text-slate-200 hover:border-slate-600'
+}`;
+
+const ImageExportModal: React.FC<ImageExportModalProps> = ({ nodes, links, onClose }) => {
+  const [format, setFormat] = useState<ImageFormat>('png');
+  const [options, setOptions] = useState<ImageExportOptions>(DEFAULT_IMAGE_EXPORT_OPTIONS);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const rendered = useMemo(() => renderMindMapSvg(nodes, links, options), [nodes, links, options]);
+  const preview = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(rendered.svg)}`;
+
+  const update = (changes: Partial<ImageExportOptions>) => setOptions(prev => ({ ...prev, ...changes }));
+
+  const handleExport = async () => {
+      setIsExporting(true);
+      setError(null);
+      try {
+          if (format === 'svg') downloadText(rendered.svg, datedFilename('svg'), 'image/svg+xml');
+          if (format === 'png') downloadBlob(await exportPng(rendered, options), datedFilename('png'));
+          if (format === 'pdf') downloadBlob(await exportPdf(rendered, options), datedFilename('pdf'));
+          onClose();
+      } catch (e: any) {
+          console.error(e);
+          setError(e.message || 'Export failed.');
+      } finally {
+          setIsExporting(false);
+      }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl w-full max-w-2xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-slate-800 bg-slate-900/50">
+          <div className="flex items-center gap-2 text-blue-400">
+            <ImageIcon size={20} />
+            <h2 className="text-lg font-semibold text-white">Export Image</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-800 rounded-full text-slate-400 hover:text-white transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-6 flex-1 overflow-y-auto space-y-5">
+            <div
+                className="h-56 rounded-xl border border-slate-800 flex items-center justify-center overflow-hidden"
+                // Checkerboard behind transparent exports
+                style={{ background: 'repeating-conic-gradient(#1e293b 0% 25%, #0f172a 0% 50%) 50% / 16px 16px' }}
+            >
+                <img src={preview} alt="Export preview" className="max-w-full max-h-full object-contain" />
+            </div>
+            <p className="text-xs text-slate-500 -mt-3">
+                Whole map, {rendered.width} × {rendered.height} px at 1x
+            </p>
+
+            <div className="grid grid-cols-3 gap-2">
+                {FORMATS.map(f => (
+                    <button key={f.id} onClick={() => setFormat(f.id)} className={`${chipClass(format === f.id)} text-left`}>
+                        <div className="text-sm">{f.label}</div>
+                        <div className="text-[10px] opacity-70 font-normal">{f.hint}</div>
+                    </button>
+                ))}
+            </div>
+
+            <div className="space-y-3 text-sm text-slate-300">
+                <div className="flex items-center justify-between gap-4">
+                    <span>Background</span>
+                    <div className="flex gap-2">
+                        <button onClick={() => update({ background: 'theme' })} className={chipClass(options.background === 'theme')}>Dark theme</button>
+                        <button onClick={() => update({ background: 'transparent' })} className={chipClass(options.background === 'transparent')}>Transparent</button>
+                    </div>
+                </div>
+
+                <div className="flex items-center justify-between gap-4">
+                    <span>Padding around the map</span>
+                    <div className="flex items-center gap-3">
+                        <input
+                            type="range"
+                            min={0}
+                            max={200}
+                            step={10}
+                            value={options.padding}
+                            onChange={(e) => update({ padding: Number(e.target.value) })}
+                            className="accent-blue-500"
+                        />
+                        <span className="w-12 text-right text-xs text-slate-400">{options.padding}px</span>
+                    </div>
+                </div>
+
+                {format !== 'svg' && (
+                    <div className="flex items-center justify-between gap-4">
+                        <span>Scale</span>
+                        <div className="flex gap-2">
+                            {SCALES.map(scale => (
+                                <button key={scale} onClick={() => update({ scale })} className={chipClass(options.scale === scale)}>{scale}x</button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                {format === 'pdf' && (
+                    <div className="flex items-center justify-between gap-4">
+                        <span>Pages</span>
+                        <div className="flex gap-2">
+                            <button onClick={() => update({ pdfLayout: 'fit' })} className={chipClass(options.pdfLayout === 'fit')}>Fit on one page</button>
+                            <button onClick={() => update({ pdfLayout: 'tiled' })} className={chipClass(options.pdfLayout === 'tiled')}>Actual size, several pages</button>
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            {error && <p className="text-sm text-red-400">{error}</p>}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-800 bg-slate-900/50 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-slate-300 hover:text-white hover:bg-slate-800 transition-colors text-sm font-medium"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="px-6 py-2 rounded-lg flex items-center gap-2 text-sm font-medium text-white transition-all bg-blue-600 hover:bg-blue-500 shadow-lg shadow-blue-600/20 disabled:opacity-50"
+          >
+            {isExporting ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+            Export {format.toUpperCase()}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageExportModal;
@@ -0,0 +1,139 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Layout, Columns2, Orbit, Network, ListTree, RotateCcw, Pin } from 'lucide-react';
+import { LayoutKind, LayoutOptions, LayoutSpacing } from '../types';
+import { DEFAULT_LAYOUT_SPACING } from '../utils/layout';
+
+interface LayoutMenuProps {
+  options: LayoutOptions;
+  onOptionsChange: (options: LayoutOptions) => void;
+  // Lays the map out with the given layout and spacing
+  onApply: (kind: LayoutKind, spacing: LayoutSpacing) => void;
+  // A spacing slider was let go, so the next change starts a new undo step
+  onSpacingChangeEnd: () => void;
+  pinnedCount: number;
+  onUnpinAll: () => void;
+}
+
+const LAYOUTS: { kind: LayoutKind, label: string, hint: string, icon: React.ReactNode, sibling: string, level: string }[] = [
+  { kind: 'horizontal', label: 'Tree, left to right', hint: 'Root on the left', icon: <Layout size={16} />, sibling: 'Between siblings', level: 'Between levels' },
+  { kind: 'vertical', label: 'Tree, top down', hint: 'Root at the top', icon: <Layout size={16} className="rotate-90" />, sibling: 'Between siblings', level: 'Between levels' },
+  { kind: 'balanced', label: 'Balanced', hint: 'Branches split left and right of the root', icon: <Columns2 size={16} />, sibling: 'Between siblings', level: 'Between levels' },
+  { kind: 'radial', label: 'Radial', hint: 'Rings around the root', icon: <Orbit size={16} />, sibling: 'Along a ring', level: 'Between rings' },
+  { kind: 'org-chart', label: 'Org chart', hint: 'Top down, leaves stacked in columns', icon: <Network size={16} />, sibling: 'Between columns', level: 'Between levels' },
+  { kind: 'indented', label: 'Indented list', hint: 'One row per node, like an outline', icon: <ListTree size={16} />, sibling: 'Between rows', level: 'Indent' },
+];
+
+const LayoutMenu: React.FC<LayoutMenuProps> = ({ options, onOptionsChange, onApply, onSpacingChangeEnd, pinnedCount, onUnpinAll }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+      if (!isOpen) return;
+      const close = (e: MouseEvent) => {
+          if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+      };
+      document.addEventListener('mousedown', close);
+      return () => document.removeEventListener('mousedown', close);
+  }, [isOpen]);
+
+  const current = LAYOUTS.find(l => l.kind === options.kind) || LAYOUTS[0];
+  const spacing = options.spacing[options.kind];
+  const defaults = DEFAULT_LAYOUT_SPACING[options.kind];
+
+  const selectLayout = (kind: LayoutKind) => {
+      onOptionsChange({ ...options, kind });
+      onApply(kind, options.spacing[kind]);
+  };
+
+  // Spacing changes re-run the layout straight away, so the sliders preview on the map
+  const updateSpacing = (changes: Partial<LayoutSpacing>) => {
+      const next = { ...spacing, ...changes };
+      onOptionsChange({ ...options, spacing: { ...options.spacing, [options.kind]: next } });
+      onApply(options.kind, next);
+  };
+
+  const slider = (key: keyof LayoutSpacing, label: string) => (
+      <label className="block space-y-1">
+          <span className="flex justify-between text-[10px] text-slate-500">
+              <span>{label}</span>
+              <span className="font-mono">{spacing[key]}px</span>
+          </span>
+          <input
+              type="range"
+              min={Math.round(defaults[key] / 2)}
+              max={defaults[key] * 2}
+              step={2}
+              value={spacing[key]}
+              onChange={(e) => updateSpacing({ [key]: Number(e.target.value) })}
+              onPointerUp={onSpacingChangeEnd}
+              className="w-full accent-blue-500"
+          />
+      </label>
+  );
+
+  return (
+    <div ref={menuRef} className="relative">
+        <button
+            onClick={() => setIsOpen(open => !open)}
+            className={`p-2 rounded-lg transition-colors flex items-center gap-2 ${isOpen ? 'text-white bg-slate-800' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+            title={`Auto Layout (${current.label})`}
+        >
+            {current.icon}
+        </button>
+        {isOpen && (
+            <div className="absolute top-full left-0 mt-2 w-64 bg-slate-900 border border-slate-700 rounded-xl shadow-2xl p-1 z-50">
+                {LAYOUTS.map(layout => (
+                    <button
+                        key={layout.kind}
+                        onClick={() => selectLayout(layout.kind)}
+                        className={`w-full flex items-center gap-3 text-left px-3 py-2 rounded-lg transition-colors ${
+                            layout.kind === options.kind ? 'bg-blue-600/20 text-blue-200' : 'text-slate-200 hover:bg-slate-800'
+                        }`}
+                    >
+                        <span className="text-slate-400">{layout.icon}</span>
+                        <span>
+                            <span className="block text-sm">{layout.label}</span>
+                            <span className="block text-[10px] text-slate-500">{layout.hint}</span>
+                        </span>
+                    </button>
+                ))}
+                <div className="px-3 py-2 mt-1 border-t border-slate-800 space-y-2">
+                    <div className="flex items-center justify-between">
+                        <span className="text-[10px] font-bold uppercase tracking-wider text-slate-500">Spacing</span>
+                        <button
+                            onClick={() => updateSpacing(defaults)}
+                            className="p-1 text-slate-500 hover:text-slate-200 rounded transition-colors"
+                            title="Reset spacing"
+                        >
+                            <RotateCcw size={12} />
+                        </button>
+                    </div>
+                    {slider('sibling', current.sibling)}
+                    {slider('level', current.level)}
+                </div>
+                <div className="px-3 py-2 border-t border-slate-800 space-y-1.5">
+                    <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={options.keepPinned}
+                            onChange={(e) => onOptionsChange({ ...options, keepPinned: e.target.checked })}
+                            className="accent-blue-500"
+                        />
+                        Keep pinned nodes in place
+                    </label>
+                    <div className="flex items-center justify-between text-[10px] text-slate-500">
+                        <span className="flex items-center gap-1"><Pin size={10} /> {pinnedCount} pinned</span>
+                        {pinnedCount > 0 && (
+                            <button onClick={onUnpinAll} className="text-slate-400 hover:text-slate-200 transition-colors">
+                                Unpin all
+                            </button>
+                        )}
+                    </div>
+                </div>
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default LayoutMenu;
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { StoredMap } from '../types';
+import { X, Library, FilePlus, Pencil, Copy, Trash2, Check } from 'lucide-react';
+
+interface LibrarySidebarProps {
+  maps: StoredMap[];
+  currentMapId: string | null;
+  onOpen: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const formatDate = (time: number) => new Date(time).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const LibrarySidebar: React.FC<LibrarySidebarProps> = ({ maps, currentMapId, onOpen, onCreate, onRename, onDuplicate, onDelete, onClose }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const startRename = (map: StoredMap) => {
+      setEditingId(map.id);
+      setDraftTitle(map.title);
+  };
+
+  const commitRename = () => {
+      if (editingId && draftTitle.trim()) onRename(editingId, draftTitle.trim());
+      setEditingId(null);
+  };
+
+  return (
+    <div className="w-72 h-full bg-slate-900 border-r border-slate-700 flex flex-col shadow-2xl">
+
+      {/* Header */}
+      <div className="p-4 border-b border-slate-800 flex items-center justify-between">
+        <div className="flex items-center gap-2 text-slate-200 font-semibold">
+          <Library size={18} className="text-blue-400" />
+          <span>My Maps</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <button onClick={onCreate} className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors" title="New Map">
+            <FilePlus size={18} />
+          </button>
+          <button onClick={onClose} className="p-1.5 text-slate-500 hover:text-slate-300 transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-2 space-y-1">
+        {maps.map(map => {
+            const isCurrent = map.id === currentMapId;
+            return (
+                <div
+                    key={map.id}
+                    onClick={() => !isCurrent && editingId !== map.id && onOpen(map.id)}
+                    className={`group px-3 py-2 rounded-lg border cursor-pointer transition-colors ${
+                        isCurrent ? 'bg-blue-600/20 border-blue-500/50' : 'border-transparent hover:bg-slate-800'
+                    }`}
+                >
+                    {editingId === map.id ? (
+                        <div className="flex items-center gap-1">
+                            <input
+                                autoFocus
+                                value={draftTitle}
+                                onChange={(e) => setDraftTitle(e.target.value)}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Enter') commitRename();
+                                    if (e.key === 'Escape') setEditingId(null);
+                                }}
+                                onBlur={commitRename}
+                                className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-sm text-slate-200 focus:outline-none focus:border-blue-500"
+                            />
+                            <button onMouseDown={(e) => e.preventDefault()} onClick={commitRename} className="p-1 text-emerald-400 hover:text-emerald-200">
+                                <Check size={14} />
+                            </button>
+                        </div>
+                    ) : (
+                        <div className="flex items-center gap-2">
+                            <div className="flex-1 min-w-0">
+                                <div className={`text-sm truncate ${isCurrent ? 'text-white font-medium' : 'text-slate-300'}`}>{map.title}</div>
+                                <div className="text-[10px] text-slate-500">
+                                    {map.data.nodes.length} nodes • {formatDate(map.updatedAt)}
+                                </div>
+                            </div>
+                            <div className="hidden group-hover:flex items-center gap-0.5" onClick={(e) => e.stopPropagation()}>
+                                <button onClick={() => startRename(map)} className="p-1 text-slate-400 hover:text-white rounded" title="Rename">
+                                    <Pencil size={13} />
+                                </button>
+                                <button onClick={() => onDuplicate(map.id)} className="p-1 text-slate-400 hover:text-white rounded" title="Duplicate">
+                                    <Copy size={13} />
+                                </button>
+                                <button onClick={() => onDelete(map.id)} className="p-1 text-slate-400 hover:text-red-400 rounded" title="Delete">
+                                    <Trash2 size={13} />
+                                </button>
+                            </div>
+                        </div>
+                    )}
+                </div>
+            );
+        })}
+      </div>
+
+      <div className="p-3 border-t border-slate-800 text-[10px] text-slate-500">
+        Maps are saved automatically in this browser.
+      </div>
+    </div>
+  );
+};
+
+export default LibrarySidebar;
@@ -0,0 +1,114 @@
+
+import React, { useState } from 'react';
+import { X, Link2, Check, Ban, ArrowRight } from 'lucide-react';
+import { MindMapNode, SecondaryLink } from '../types';
+import { LINK_TYPE_COLORS, LINK_TYPE_LABELS } from '../utils/links';
+
+interface LinkSuggestionsModalProps {
+  suggestions: SecondaryLink[];
+  nodes: MindMapNode[];
+  onApply: (accepted: SecondaryLink[]) => void;
+  onClose: () => void;
+}
+
+type Decision = 'accepted' | 'rejected' | undefined;
+
+const LinkSuggestionsModal: React.FC<LinkSuggestionsModalProps> = ({ suggestions, nodes, onApply, onClose }) => {
+  const [decisions, setDecisions] = useState<Decision[]>(() => suggestions.map(() => undefined));
+
+  const labelOf = (id: string) => nodes.find(n => n.id === id)?.label || id;
+  const accepted = suggestions.filter((_, i) => decisions[i] === 'accepted');
+
+  const decide = (index: number, decision: Decision) => {
+      setDecisions(prev => prev.map((d, i) => i === index ? (d === decision ? undefined : decision) : d));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl w-full max-w-2xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-slate-800 bg-slate-900/50">
+          <div className="flex items-center gap-2 text-amber-400">
+            <Link2 size={20} />
+            <h2 className="text-lg font-semibold text-white">Suggested Connections</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-800 rounded-full text-slate-400 hover:text-white transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-6 flex-1 overflow-y-auto space-y-2">
+            <p className="text-xs text-slate-500 mb-3">Review each cross-link. Only accepted links are added to the map.</p>
+            {suggestions.map((link, i) => {
+                const type = link.type || 'related';
+                const decision = decisions[i];
+                return (
+                    <div
+                        key={`${link.sourceId}-${link.targetId}`}
+                        className={`flex items-center gap-3 p-3 rounded-xl border transition-colors ${
+                            decision === 'accepted' ? 'border-emerald-700 bg-emerald-900/20' :
+                            decision === 'rejected' ? 'border-slate-800 bg-slate-950 opacity-50' :
+                            'border-slate-800 bg-slate-950'
+                        }`}
+                    >
+                        <div className="flex-1 min-w-0">
+                            <div className="flex items-center gap-2 text-sm text-slate-200">
+                                <span className="truncate">{labelOf(link.sourceId)}</span>
+                                <ArrowRight size={14} className="shrink-0" style={{ color: LINK_TYPE_COLORS[type] }} />
+                                <span className="truncate">{labelOf(link.targetId)}</span>
+                            </div>
+                            <div className="text-xs mt-1" style={{ color: LINK_TYPE_COLORS[type] }}>
+                                {LINK_TYPE_LABELS[type]}{link.label ? ` · ${link.label}` : ''}
+                            </div>
+                        </div>
+                        <button onClick={() => decide(i, 'accepted')} className={`p-1.5 rounded-lg transition-colors ${decision === 'accepted' ? 'bg-emerald-600 text-white' : 'text-slate-400 hover:bg-slate-800 hover:text-emerald-400'}`} title="Accept">
+                            <Check size={16} />
+                        </button>
+                        <button onClick={() => decide(i, 'rejected')} className={`p-1.5 rounded-lg transition-colors ${decision === 'rejected' ? 'bg-red-700 text-white' : 'text-slate-400 hover:bg-slate-800 hover:text-red-400'}`} title="Reject">
+                            <Ban size={16} />
+                        </button>
+                    </div>
+                );
+            })}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-800 bg-slate-900/50 flex justify-between gap-3">
+          <button
+            onClick={() => setDecisions(suggestions.map(() => 'accepted'))}
+            className="px-4 py-2 rounded-lg text-slate-300 hover:text-white hover:bg-slate-800 transition-colors text-sm font-medium"
+          >
+            Accept All
+          </button>
+          <div className="flex gap-3">
+            <button
+                onClick={onClose}
+                className="px-4 py-2 rounded-lg text-slate-300 hover:text-white hover:bg-slate-800 transition-colors text-sm font-medium"
+            >
+                Cancel
+            </button>
+            <button
+                onClick={() => onApply(accepted)}
+                disabled={accepted.length === 0}
+                className={`
+                    px-6 py-2 rounded-lg flex items-center gap-2 text-sm font-medium text-white transition-all
+                    ${accepted.length === 0 ? 'bg-slate-700 cursor-not-allowed opacity-50' : 'bg-amber-600 hover:bg-amber-500 shadow-lg shadow-amber-600/20'}
+                `}
+            >
+                <Link2 size={16} />
+                Add {accepted.length} {accepted.length === 1 ? 'Link' : 'Links'}
+            </button>
+          </div>
+        </div>
+
+      </div>
+    </div>
+  );
+};
+
+export default LinkSuggestionsModal;
@@ -1,70 +1,97 @@
 
 import React, { useRef, useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { MindMapNode, Viewport, NodeStyle, SecondaryLink } from '../types';
-import { Plus, Trash2, Edit2, Maximize, ZoomIn, ZoomOut, GripHorizontal, Target } from 'lucide-react';
+import { MindMapNode, Viewport, NodeStyle, SecondaryLink, Collaborator } from '../types';
+import { LINK_TYPE_COLORS, getLinkPath, getLinkLabel } from '../utils/links';
+import { getNodeBox, NodeSize } from '../utils/nodeBox';
+import { getDescendantIds, getHiddenIds } from '../utils/tree';
+import { Plus, Minus, Trash2, Edit2, Maximize, ZoomIn, ZoomOut, GripHorizontal, Target, Sparkles, Loader2, MousePointer2, Pin } from 'lucide-react';
 
 interface MindMapCanvasProps {
   nodes: MindMapNode[];
   secondaryLinks?: SecondaryLink[];
-  selectedNodeId: string | null;
-  onNodeSelect: (id: string | null) => void;
+  // In selection order; the last one is the primary selection
+  selectedNodeIds: string[];
+  onSelectionChange: (ids: string[]) => void;
   onNodeUpdate: (node: MindMapNode) => void;
   onNodeMove: (id: string, x: number, y: number) => void;
+  // The dragged node was let go, so the next move starts a new undo step
+  onNodeMoveEnd?: () => void;
   onNodeAdd: (parentId: string) => void;
   onNodeDelete: (id: string) => void;
   onNodeReparent: (nodeId: string, newParentId: string) => void;
   onLinkAdd: (sourceId: string, targetId: string) => void;
+  onNodeExpand: (id: string) => void;
+  onToggleCollapse: (id: string) => void;
+  expandingNodeId?: string | null;
+  // Other people in a collaborative session, drawn as cursors and selection outlines
+  collaborators?: Collaborator[];
+  // Reports the pointer in world coordinates, or null when it leaves the canvas
+  onCursorMove?: (point: { x: number, y: number } | null) => void;
+  // Viewer mode: panning, zooming and tooltips, but no selecting, dragging or editing
+  readOnly?: boolean;
+  // Receives the rendered size of every drawn node whenever the nodes change, for size-aware layout
+  onNodeSizesChange?: (sizes: Map<string, NodeSize>) => void;
 }
 
 // Helper to generate a smart bezier curve based on relative positions
 const SmartLink: React.FC<{ 
     source: { x: number, y: number }, 
     target: { x: number, y: number }, 
-    isSecondary?: boolean 
-}> = ({ source, target, isSecondary }) => {
+    isSecondary?: boolean,
+    color?: string,
+    label?: string
+}> = ({ source, target, isSecondary, color, label }) => {
     
-    const dx = target.x - source.x;
-    const dy = target.y - source.y;
-    const absDx = Math.abs(dx);
-    const absDy = Math.abs(dy);
-
-    let path = '';
-
-    // If nodes are far enough apart horizontally, use horizontal cubic bezier
-    if (absDx > absDy) {
-        const midX = (source.x + target.x) / 2;
-        path = `M ${source.x} ${source.y} C ${midX} ${source.y}, ${midX} ${target.y}, ${target.x} ${target.y}`;
-    } 
-    // Otherwise use vertical cubic bezier
-    else {
-        const midY = (source.y + target.y) / 2;
-        path = `M ${source.x} ${source.y} C ${source.x} ${midY}, ${target.x} ${midY}, ${target.x} ${target.y}`;
-    }
+    const path = getLinkPath(source, target);
+
+    const stroke = color || (isSecondary ? "#f59e0b" : "#334155"); // Amber-500 for secondary, Slate-700 for primary
 
     return (
-        <path
-            d={path}
-            fill="none"
-            stroke={isSecondary ? "#f59e0b" : "#334155"} // Amber-500 for secondary, Slate-700 for primary
-            strokeWidth="2"
-            strokeDasharray={isSecondary ? "5,5" : undefined}
-            className="transition-all duration-300"
-        />
+        <g>
+            <path
+                d={path}
+                fill="none"
+                stroke={stroke}
+                strokeWidth="2"
+                strokeDasharray={isSecondary ? "5,5" : undefined}
+                className="transition-all duration-300"
+            />
+            {label && (
+                <text
+                    x={(source.x + target.x) / 2}
+                    y={(source.y + target.y) / 2 - 6}
+                    fill={stroke}
+                    fontSize="11"
+                    textAnchor="middle"
+                    className="select-none"
+                >
+                    {label}
+                </text>
+            )}
+        </g>
     );
 };
 
 const MindMapCanvas: React.FC<MindMapCanvasProps> = ({ 
     nodes, 
     secondaryLinks = [],
-    selectedNodeId,
-    onNodeSelect, 
+    selectedNodeIds,
+    onSelectionChange, 
     onNodeUpdate, 
     onNodeMove,
+    onNodeMoveEnd,
     onNodeAdd, 
     onNodeDelete,
     onNodeReparent,
-    onLinkAdd
+    onLinkAdd,
+    onNodeExpand,
+    onToggleCollapse,
+    expandingNodeId = null,
+    collaborators = [],
+    onCursorMove,
+    readOnly = false,
+    onNodeSizesChange
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const [viewport, setViewport] = useState<Viewport>({ x: 0, y: 0, scale: 1 });
@@ -85,18 +112,50 @@ const MindMapCanvas: React.FC<MindMapCanvasProps> = ({
   
   const [dropTargetId, setDropTargetId] = useState<string | null>(null);
   const [lastMouse, setLastMouse] = useState({ x: 0, y: 0 });
+  // Rubber band from Shift+drag on the background, corners in container coordinates
+  const [marquee, setMarquee] = useState<{ startX: number, startY: number, x: number, y: number } | null>(null);
+
+  const selectedNodeId = selectedNodeIds[selectedNodeIds.length - 1] ?? null;
+
+  // Nodes inside collapsed branches are not drawn, hit-tested or selectable
+  const hiddenIds = getHiddenIds(nodes);
+  const visibleNodes = hiddenIds.size > 0 ? nodes.filter(n => !hiddenIds.has(n.id)) : nodes;
+  const parentIds = new Set(nodes.map(n => n.parentId));
+
+  const toContainer = (clientX: number, clientY: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    return { x: clientX - (rect?.left ?? 0), y: clientY - (rect?.top ?? 0) };
+  };
+
+  const toWorld = (point: { x: number, y: number }) => ({
+    x: (point.x - viewport.x - window.innerWidth/2) / viewport.scale,
+    y: (point.y - viewport.y - window.innerHeight/2) / viewport.scale
+  });
 
   // Viewport Panning
   const handleMouseDown = (e: React.MouseEvent) => {
     // Only pan if clicking on background or SVG directly
     if (e.target === containerRef.current || (e.target as HTMLElement).tagName === 'svg') {
+      if (e.shiftKey && !readOnly) {
+        const start = toContainer(e.clientX, e.clientY);
+        setMarquee({ startX: start.x, startY: start.y, x: start.x, y: start.y });
+        return;
+      }
       setIsPanning(true);
       setLastMouse({ x: e.clientX, y: e.clientY });
-      onNodeSelect(null); 
+      onSelectionChange([]);
     }
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
+    onCursorMove?.(toWorld(toContainer(e.clientX, e.clientY)));
+
+    if (marquee) {
+      const point = toContainer(e.clientX, e.clientY);
+      setMarquee({ ...marquee, x: point.x, y: point.y });
+      return;
+    }
+
     // 1. Panning Logic
     if (isPanning) {
       const dx = e.clientX - lastMouse.x;
@@ -114,16 +173,17 @@ const MindMapCanvas: React.FC<MindMapCanvasProps> = ({
         
         setLastMouse({ x: e.clientX, y: e.clientY });
 
-        // Update the dragged node and its subtree visually
+        // Update the dragged node and its subtree visually (the whole selection when it is part of one)
         onNodeMove(dragState.nodeId, dx, dy);
 
         // Hit Testing for Reparenting/Linking
         const worldX = (e.clientX - viewport.x - window.innerWidth/2) / viewport.scale;
         const worldY = (e.clientY - viewport.y - window.innerHeight/2) / viewport.scale;
         
-        // Simple bounding box check against other nodes
-        const hitNode = nodes.find(n => 
+        // Simple bounding box check against nodes not being dragged
+        const hitNode = visibleNodes.find(n => 
             n.id !== dragState.nodeId && 
+            !selectedNodeIds.includes(n.id) && 
             Math.abs(n.x - worldX) < 100 && // Wide hit area
             Math.abs(n.y - worldY) < 40
         );
@@ -133,6 +193,25 @@ const MindMapCanvas: React.FC<MindMapCanvasProps> = ({
   };
 
   const handleMouseUp = () => {
+    if (marquee) {
+        // Everything the band touches joins the selection
+        const a = toWorld({ x: marquee.startX, y: marquee.startY });
+        const b = toWorld({ x: marquee.x, y: marquee.y });
+        const left = Math.min(a.x, b.x), right = Math.max(a.x, b.x);
+        const top = Math.min(a.y, b.y), bottom = Math.max(a.y, b.y);
+        const hits = visibleNodes.filter(n => {
+            const box = getNodeBox(n);
+            return box.x < right && box.x + box.width > left && box.y < bottom && box.y + box.height > top;
+        }).map(n => n.id);
+        onSelectionChange([...selectedNodeIds.filter(id => !hits.includes(id)), ...hits]);
+        setMarquee(null);
+    }
+
+    // A click that did not drag narrows a selection down to the clicked node
+    if (isDraggingNode && dragState && lastMouse.x === dragState.startX && lastMouse.y === dragState.startY && selectedNodeIds.length > 1) {
+        onSelectionChange([dragState.nodeId]);
+    }
+
     if (isDraggingNode && dragState && dropTargetId) {
         if (dragState.isAltPressed) {
             // Create Secondary Link
@@ -143,12 +222,23 @@ const MindMapCanvas: React.FC<MindMapCanvasProps> = ({
         }
     }
 
+    if (isDraggingNode) onNodeMoveEnd?.();
     setIsPanning(false);
     setIsDraggingNode(false);
     setDragState(null);
     setDropTargetId(null);
   };
 
+  // Measured after each change to the nodes; the one being edited is skipped while its input is showing
+  useEffect(() => {
+    if (!onNodeSizesChange || !containerRef.current) return;
+    const sizes = new Map<string, NodeSize>();
+    containerRef.current.querySelectorAll<HTMLElement>('[data-node-id]').forEach(el => {
+        if (el.dataset.nodeId !== editingNodeId) sizes.set(el.dataset.nodeId!, { width: el.offsetWidth, height: el.offsetHeight });
+    });
+    onNodeSizesChange(sizes);
+  }, [nodes, editingNodeId, onNodeSizesChange]);
+
   // Native Wheel Event Listener to prevent default browser zoom
   useEffect(() => {
     const container = containerRef.current;
@@ -247,7 +337,23 @@ const MindMapCanvas: React.FC<MindMapCanvasProps> = ({
   // Node Interactions
   const handleNodeMouseDown = (e: React.MouseEvent, node: MindMapNode) => {
       e.stopPropagation();
-      onNodeSelect(node.id);
+      // Nodes are part of the background in viewer mode, so dragging one pans
+      if (readOnly) {
+          setIsPanning(true);
+          setLastMouse({ x: e.clientX, y: e.clientY });
+          return;
+      }
+      // Shift toggles the node in the selection without dragging
+      if (e.shiftKey) {
+          onSelectionChange(selectedNodeIds.includes(node.id)
+              ? selectedNodeIds.filter(id => id !== node.id)
+              : [...selectedNodeIds, node.id]);
+          return;
+      }
+      // Grabbing part of a selection drags all of it, with this node as the primary
+      onSelectionChange(selectedNodeIds.includes(node.id)
+          ? [...selectedNodeIds.filter(id => id !== node.id), node.id]
+          : [node.id]);
       
       setIsDraggingNode(true);
       setLastMouse({ x: e.clientX, y: e.clientY });
@@ -306,10 +412,10 @@ const MindMapCanvas: React.FC<MindMapCanvasProps> = ({
   const renderLinks = () => {
       const links: React.ReactNode[] = [];
       const nodeMap = new Map<string, MindMapNode>();
-      nodes.forEach(n => nodeMap.set(n.id, n));
+      visibleNodes.forEach(n => nodeMap.set(n.id, n));
 
       // 1. Primary Hierarchy Links
-      nodes.forEach(node => {
+      visibleNodes.forEach(node => {
           if (node.parentId) {
               const parent = nodeMap.get(node.parentId);
               if (parent) {
@@ -335,6 +441,8 @@ const MindMapCanvas: React.FC<MindMapCanvasProps> = ({
                     source={{ x: source.x, y: source.y }}
                     target={{ x: target.x, y: target.y }}
                     isSecondary
+                    color={link.type ? LINK_TYPE_COLORS[link.type] : undefined}
+                    label={getLinkLabel(link)}
                 />
             );
           }
@@ -369,7 +477,7 @@ const MindMapCanvas: React.FC<MindMapCanvasProps> = ({
       onMouseDown={handleMouseDown}
       onMouseMove={handleMouseMove}
       onMouseUp={handleMouseUp}
-      onMouseLeave={handleMouseUp}
+      onMouseLeave={() => { handleMouseUp(); onCursorMove?.(null); }}
     >
         {nodes.length === 0 && (
             <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
@@ -405,8 +513,8 @@ const MindMapCanvas: React.FC<MindMapCanvasProps> = ({
 
             {/* Nodes Layer */}
             <AnimatePresence>
-            {nodes.map((node) => {
-                const isSelected = selectedNodeId === node.id;
+            {visibleNodes.map((node) => {
+                const isSelected = selectedNodeIds.includes(node.id);
                 const isEditing = editingNodeId === node.id;
                 const isDropTarget = dropTargetId === node.id;
                 const isHovered = hoveredNodeId === node.id;
@@ -415,9 +523,11 @@ const MindMapCanvas: React.FC<MindMapCanvasProps> = ({
                 const showTooltip = node.description && ( (isHovered && !isDraggingNode) || isDropTarget );
 
                 const { className, style, textClass } = getNodeStyles(node, isSelected, isDropTarget);
+                const remoteSelectors = collaborators.filter(peer => peer.selectedNodeId === node.id);
                 
                 // If this specific node is being dragged, we disable spring smoothing to prevent drag lag/floatiness
                 const isBeingDragged = isDraggingNode && isSelected;
+                const hasChildren = parentIds.has(node.id);
 
                 return (
                 <motion.div
@@ -436,11 +546,14 @@ const MindMapCanvas: React.FC<MindMapCanvasProps> = ({
                     onMouseLeave={() => setHoveredNodeId(null)}
                 >
                     {/* Floating Action Menu */}
-                    {isSelected && !isEditing && !isDraggingNode && (
+                    {isSelected && selectedNodeIds.length === 1 && !isEditing && !isDraggingNode && (
                         <div className="absolute -top-11 left-1/2 -translate-x-1/2 flex gap-1 bg-slate-800 p-1.5 rounded-lg border border-slate-700 shadow-xl z-50 no-export">
                             <button onMouseDown={(e) => { e.stopPropagation(); onNodeAdd(node.id); }} className="p-1 hover:bg-blue-600 rounded text-slate-300 hover:text-white transition-colors" title="Add Child (Tab)">
                                 <Plus size={14} />
                             </button>
+                            <button onMouseDown={(e) => { e.stopPropagation(); onNodeExpand(node.id); }} disabled={!!expandingNodeId && expandingNodeId !== node.id} className="p-1 hover:bg-purple-600 rounded text-slate-300 hover:text-white transition-colors disabled:opacity-50" title={expandingNodeId === node.id ? "Cancel AI Expand" : "AI Expand"}>
+                                {expandingNodeId === node.id ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />}
+                            </button>
                             <button onMouseDown={(e) => { e.stopPropagation(); setEditingNodeId(node.id); }} className="p-1 hover:bg-emerald-600 rounded text-slate-300 hover:text-white transition-colors" title="Edit Text (DblClick)">
                                 <Edit2 size={14} />
                             </button>
@@ -456,6 +569,24 @@ const MindMapCanvas: React.FC<MindMapCanvasProps> = ({
                         </div>
                     )}
                     
+                    {/* Who else has this node selected */}
+                    {remoteSelectors.length > 0 && (
+                        <div className="absolute -top-5 left-0 flex gap-1 pointer-events-none no-export">
+                            {remoteSelectors.map(peer => (
+                                <span key={peer.clientId} className="px-1.5 rounded text-[10px] leading-4 text-white whitespace-nowrap" style={{ backgroundColor: peer.color }}>
+                                    {peer.name}
+                                </span>
+                            ))}
+                        </div>
+                    )}
+
+                    {/* Pinned: incremental auto layout leaves it where it is */}
+                    {node.pinned && !readOnly && (
+                        <div className="absolute -top-1.5 -left-1.5 w-4 h-4 flex items-center justify-center bg-slate-700 text-slate-300 rounded-full border border-slate-900 z-20 no-export" title="Pinned">
+                            <Pin size={9} />
+                        </div>
+                    )}
+
                     {/* Description Indicator (if not selected/hovered) */}
                     {node.description && !isSelected && !showTooltip && (
                         <div className="absolute -top-1 -right-1 w-3 h-3 bg-blue-500 rounded-full border-2 border-slate-900 z-20"></div>
@@ -482,10 +613,11 @@ const MindMapCanvas: React.FC<MindMapCanvasProps> = ({
                     </AnimatePresence>
 
                     <div 
+                        data-node-id={node.id}
                         onMouseDown={(e) => handleNodeMouseDown(e, node)}
-                        onDoubleClick={(e) => { e.stopPropagation(); setEditingNodeId(node.id); }}
+                        onDoubleClick={(e) => { e.stopPropagation(); if (!readOnly) setEditingNodeId(node.id); }}
                         className={`${className} ${isDraggingNode && isSelected ? 'cursor-grabbing' : 'cursor-grab'}`}
-                        style={style}
+                        style={remoteSelectors.length > 0 && !isSelected ? { ...style, boxShadow: `0 0 0 3px ${remoteSelectors[0].color}` } : style}
                     >
                         {isEditing ? (
                             <input 
@@ -502,16 +634,56 @@ const MindMapCanvas: React.FC<MindMapCanvasProps> = ({
                             <span className={`font-medium text-slate-200 truncate ${textClass}`}>{node.label}</span>
                         )}
                     </div>
+
+                    {/* Collapse toggle: always shown with the hidden count when collapsed, on hover otherwise */}
+                    {hasChildren && (node.collapsed || ((isSelected || isHovered) && !readOnly && !isDraggingNode)) && (
+                        <button
+                            onMouseDown={(e) => e.stopPropagation()}
+                            onClick={(e) => { e.stopPropagation(); if (!readOnly) onToggleCollapse(node.id); }}
+                            className={`absolute top-1/2 right-0 translate-x-1/2 -translate-y-1/2 z-20 flex items-center justify-center min-w-[20px] h-5 px-1 rounded-full border-2 border-slate-900 text-[10px] font-semibold transition-colors ${
+                                node.collapsed ? 'bg-blue-600 text-white hover:bg-blue-500' : 'bg-slate-700 text-slate-300 hover:bg-slate-600 no-export'
+                            } ${readOnly ? 'cursor-default' : ''}`}
+                            title={readOnly ? undefined : node.collapsed ? 'Expand (Space)' : 'Collapse (Space)'}
+                        >
+                            {node.collapsed ? `+${getDescendantIds(node.id, nodes).length}` : <Minus size={10} />}
+                        </button>
+                    )}
                 </motion.div>
                 );
             })}
             </AnimatePresence>
+
+            {/* Remote Cursors, kept at screen size whatever the zoom */}
+            {collaborators.filter(peer => peer.cursor).map(peer => (
+                <div
+                    key={peer.clientId}
+                    className="absolute pointer-events-none z-[70] no-export"
+                    style={{ left: peer.cursor!.x, top: peer.cursor!.y, transform: `scale(${1 / viewport.scale})`, transformOrigin: '0 0' }}
+                >
+                    <MousePointer2 size={18} style={{ color: peer.color, fill: peer.color }} />
+                    <span className="absolute left-4 top-4 px-1.5 rounded text-[10px] leading-4 text-white whitespace-nowrap" style={{ backgroundColor: peer.color }}>
+                        {peer.name}
+                    </span>
+                </div>
+            ))}
         </div>
 
+        {marquee && (
+            <div
+                className="absolute border border-blue-400 bg-blue-500/10 pointer-events-none z-40 no-export"
+                style={{
+                    left: Math.min(marquee.startX, marquee.x),
+                    top: Math.min(marquee.startY, marquee.y),
+                    width: Math.abs(marquee.x - marquee.startX),
+                    height: Math.abs(marquee.y - marquee.startY)
+                }}
+            />
+        )}
+
          <div className="absolute bottom-4 right-4 z-30 flex flex-col items-end gap-1 pointer-events-none select-none no-export">
              <div className="text-xs text-slate-500 font-mono bg-slate-900/50 p-1 rounded border border-slate-800 text-right">
-                Scroll to Pan • Ctrl+Scroll to Zoom<br/>
-                Drag on Node: Connect • Alt+Drag: Link
+                Scroll to Pan • Ctrl+Scroll to Zoom
+                {!readOnly && <><br/>Drag on Node: Connect • Alt+Drag: Link<br/>Shift+Click / Shift+Drag: Select Many</>}
              </div>
           </div>
     </div>
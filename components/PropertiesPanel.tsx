@@ -1,13 +1,27 @@
 
 import React from 'react';
 import { MindMapNode, NodeStyle } from '../types';
-import { X, Type, Square, Circle, MousePointer2, AlignLeft, Trash2 } from 'lucide-react';
+import { AlignMode, DistributeAxis } from '../utils/arrange';
+import { X, Type, Square, Circle, MousePointer2, AlignLeft, Trash2, Sparkles, Loader2, CopyPlus, ListTree, Pin, PinOff,
+    AlignStartVertical, AlignCenterVertical, AlignEndVertical, AlignStartHorizontal, AlignCenterHorizontal, AlignEndHorizontal,
+    AlignHorizontalDistributeCenter, AlignVerticalDistributeCenter } from 'lucide-react';
 
 interface PropertiesPanelProps {
-  node: MindMapNode;
+  // The selection, primary last. Content and AI expand are only offered for a single node.
+  nodes: MindMapNode[];
   onUpdate: (node: MindMapNode) => void;
+  // Applied to every selected node
+  onStyleChange: (changes: Partial<NodeStyle>) => void;
   onClose: () => void;
-  onDelete: (id: string) => void;
+  onDelete: () => void;
+  onDuplicate: () => void;
+  onSelectBranch: () => void;
+  onExpand: (id: string) => void;
+  isExpanding: boolean;
+  onAlign: (mode: AlignMode) => void;
+  onDistribute: (axis: DistributeAxis) => void;
+  // Pins every selected node, or unpins them when all are pinned
+  onTogglePin: () => void;
 }
 
 const COLORS = [
@@ -37,30 +51,42 @@ const SIZES = [
     { id: 'lg', label: 'L' },
 ];
 
-const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ node, onUpdate, onClose, onDelete }) => {
-  const currentStyle: NodeStyle = node.style || {};
+const ALIGN_ACTIONS: { mode: AlignMode, label: string, icon: typeof AlignStartVertical }[] = [
+    { mode: 'left', label: 'Align left edges', icon: AlignStartVertical },
+    { mode: 'center', label: 'Align horizontal centers', icon: AlignCenterVertical },
+    { mode: 'right', label: 'Align right edges', icon: AlignEndVertical },
+    { mode: 'top', label: 'Align top edges', icon: AlignStartHorizontal },
+    { mode: 'middle', label: 'Align vertical centers', icon: AlignCenterHorizontal },
+    { mode: 'bottom', label: 'Align bottom edges', icon: AlignEndHorizontal },
+];
+
+const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ nodes, onUpdate, onStyleChange, onClose, onDelete, onDuplicate, onSelectBranch, onExpand, isExpanding, onAlign, onDistribute, onTogglePin }) => {
+  const node = nodes[nodes.length - 1];
+  const isMulti = nodes.length > 1;
+  const allPinned = nodes.every(n => n.pinned);
+
+  // A style field shows as set only when every selected node has the same value
+  const shared = <K extends keyof NodeStyle>(key: K): NodeStyle[K] | undefined => {
+      const value = node.style?.[key];
+      return nodes.every(n => n.style?.[key] === value) ? value : undefined;
+  };
+  const sameDefault = <K extends keyof NodeStyle>(key: K) => nodes.every(n => !n.style?.[key]);
+  const currentStyle: NodeStyle = {
+      shape: shared('shape'),
+      fontSize: shared('fontSize'),
+      backgroundColor: shared('backgroundColor'),
+  };
 
   const handleStyleChange = (key: keyof NodeStyle, value: any) => {
-    onUpdate({
-      ...node,
-      style: {
-        ...currentStyle,
-        [key]: value
-      }
-    });
+    onStyleChange({ [key]: value });
   };
 
   const handleColorSelect = (colorCtx: typeof COLORS[0]) => {
-      onUpdate({
-        ...node,
-        style: {
-            ...currentStyle,
-            backgroundColor: colorCtx.bg,
-            borderColor: colorCtx.border
-        }
-      });
+      onStyleChange({ backgroundColor: colorCtx.bg, borderColor: colorCtx.border });
   };
 
+  const arrangeButtonClass = "flex items-center justify-center py-2 rounded-lg bg-slate-800 border border-slate-700 text-slate-400 hover:text-slate-200 hover:border-slate-600 transition-colors disabled:opacity-30";
+
   return (
     <div className="w-80 h-full bg-slate-900 border-l border-slate-700 flex flex-col shadow-2xl overflow-y-auto custom-scrollbar">
       
@@ -68,7 +94,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ node, onUpdate, onClo
       <div className="p-4 border-b border-slate-800 flex items-center justify-between sticky top-0 bg-slate-900 z-10">
         <div className="flex items-center gap-2 text-slate-200 font-semibold">
           <MousePointer2 size={18} className="text-blue-400" />
-          <span>Properties</span>
+          <span>{isMulti ? `${nodes.length} nodes` : 'Properties'}</span>
         </div>
         <button onClick={onClose} className="text-slate-500 hover:text-slate-300 transition-colors">
           <X size={18} />
@@ -78,6 +104,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ node, onUpdate, onClo
       <div className="p-5 space-y-6">
         
         {/* Label & Description */}
+        {!isMulti && (
         <div className="space-y-3">
           <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">Content</label>
           <input 
@@ -97,6 +124,29 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ node, onUpdate, onClo
               <AlignLeft size={14} className="absolute top-3 right-3 text-slate-600 pointer-events-none" />
           </div>
         </div>
+        )}
+
+        {/* Arrange */}
+        {isMulti && (
+        <div className="space-y-3">
+          <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">Arrange</label>
+          <div className="grid grid-cols-6 gap-2">
+              {ALIGN_ACTIONS.map(a => (
+                  <button key={a.mode} onClick={() => onAlign(a.mode)} className={arrangeButtonClass} title={a.label}>
+                      <a.icon size={16} />
+                  </button>
+              ))}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+              <button onClick={() => onDistribute('horizontal')} disabled={nodes.length < 3} className={`${arrangeButtonClass} gap-2 text-xs`} title="Equal horizontal gaps (3 or more nodes)">
+                  <AlignHorizontalDistributeCenter size={16} /> Distribute
+              </button>
+              <button onClick={() => onDistribute('vertical')} disabled={nodes.length < 3} className={`${arrangeButtonClass} gap-2 text-xs`} title="Equal vertical gaps (3 or more nodes)">
+                  <AlignVerticalDistributeCenter size={16} /> Distribute
+              </button>
+          </div>
+        </div>
+        )}
 
         {/* Styling Section */}
         <div className="space-y-4">
@@ -112,7 +162,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ node, onUpdate, onClo
                         onClick={() => handleStyleChange('shape', s.id)}
                         className={`
                             flex flex-col items-center justify-center gap-1 py-2 rounded-lg border transition-all
-                            ${currentStyle.shape === s.id || (!currentStyle.shape && s.id === 'rounded') 
+                            ${currentStyle.shape === s.id || (sameDefault('shape') && s.id === 'rounded') 
                                 ? 'bg-blue-600/20 border-blue-500 text-blue-200' 
                                 : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-750 hover:border-slate-600'}
                         `}
@@ -131,7 +181,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ node, onUpdate, onClo
                         onClick={() => handleStyleChange('fontSize', s.id)}
                         className={`
                             flex-1 py-1.5 text-xs font-medium rounded transition-all
-                            ${currentStyle.fontSize === s.id || (!currentStyle.fontSize && s.id === 'md')
+                            ${currentStyle.fontSize === s.id || (sameDefault('fontSize') && s.id === 'md')
                                 ? 'bg-slate-600 text-white shadow-sm'
                                 : 'text-slate-400 hover:text-slate-200'}
                         `}
@@ -162,13 +212,38 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ node, onUpdate, onClo
         </div>
 
         {/* Actions */}
-        <div className="pt-4 border-t border-slate-800">
+        <div className="pt-4 border-t border-slate-800 space-y-2">
+            <div className="grid grid-cols-2 gap-2">
+                <button onClick={onDuplicate} className={`${arrangeButtonClass} gap-2 text-xs`} title="Copy the selected branches next to the originals">
+                    <CopyPlus size={16} /> Duplicate
+                </button>
+                <button onClick={onSelectBranch} className={`${arrangeButtonClass} gap-2 text-xs`} title="Add everything below the selection to it">
+                    <ListTree size={16} /> Select branch
+                </button>
+                <button
+                    onClick={onTogglePin}
+                    className={`${arrangeButtonClass} col-span-2 gap-2 text-xs`}
+                    title={allPinned ? 'Let auto layout move these nodes again' : 'Keep these nodes where they are when auto layout runs'}
+                >
+                    {allPinned ? <PinOff size={16} /> : <Pin size={16} />} {allPinned ? 'Unpin position' : 'Pin position'}
+                </button>
+            </div>
+            {!isMulti && (
+            <button 
+                onClick={() => onExpand(node.id)}
+                title={isExpanding ? 'Cancel expand' : undefined}
+                className="w-full flex items-center justify-center gap-2 px-4 py-2.5 rounded-lg bg-purple-900/20 text-purple-300 hover:bg-purple-900/40 border border-purple-900/50 transition-colors text-sm font-medium disabled:opacity-50"
+            >
+                {isExpanding ? <Loader2 size={16} className="animate-spin" /> : <Sparkles size={16} />}
+                {isExpanding ? 'Expanding... (click to cancel)' : 'Expand with AI'}
+            </button>
+            )}
             <button 
-                onClick={() => { onDelete(node.id); onClose(); }}
+                onClick={() => { onDelete(); onClose(); }}
                 className="w-full flex items-center justify-center gap-2 px-4 py-2.5 rounded-lg bg-red-900/20 text-red-400 hover:bg-red-900/40 border border-red-900/50 transition-colors text-sm font-medium"
             >
                 <Trash2 size={16} />
-                Delete Node
+                {isMulti ? `Delete ${nodes.length} Nodes` : 'Delete Node'}
             </button>
         </div>
 
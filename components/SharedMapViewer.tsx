@@ -0,0 +1,60 @@
+import React from 'react';
+import { Eye, CopyPlus, X } from 'lucide-react';
+import MindMapCanvas from './MindMapCanvas';
+import { MindMapData } from '../types';
+
+interface SharedMapViewerProps {
+  data: MindMapData;
+  onOpenCopy: () => void;
+  onClose: () => void;
+}
+
+const noop = () => {};
+
+const SharedMapViewer: React.FC<SharedMapViewerProps> = ({ data, onOpenCopy, onClose }) => {
+  const root = data.nodes.find(n => n.parentId === null);
+
+  return (
+    <div className="flex-1 relative h-full flex flex-col">
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-40 bg-slate-900/90 backdrop-blur-md border border-slate-700 p-1.5 rounded-2xl shadow-xl flex items-center gap-1.5">
+            <div className="flex items-center gap-2 px-3 border-r border-slate-700 mr-1">
+                <Eye size={16} className="text-blue-400" />
+                <span className="font-semibold text-sm text-slate-200 max-w-[240px] truncate">{root?.label || 'Shared map'}</span>
+                <span className="text-xs font-mono bg-slate-800 px-1.5 py-0.5 rounded text-slate-400">VIEW ONLY</span>
+            </div>
+            <button
+                onClick={onOpenCopy}
+                className="flex items-center gap-2 px-3 py-2 rounded-xl bg-blue-600 hover:bg-blue-500 text-white text-sm font-semibold transition-all shadow-lg shadow-blue-900/20 active:scale-95"
+            >
+                <CopyPlus size={16} />
+                Open a copy for editing
+            </button>
+            <button
+                onClick={onClose}
+                className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
+                title="Close and go to my maps"
+            >
+                <X size={18} />
+            </button>
+        </div>
+
+        <MindMapCanvas
+            nodes={data.nodes}
+            secondaryLinks={data.secondaryLinks}
+            selectedNodeIds={[]}
+            onSelectionChange={noop}
+            onNodeUpdate={noop}
+            onNodeMove={noop}
+            onNodeAdd={noop}
+            onNodeDelete={noop}
+            onNodeReparent={noop}
+            onLinkAdd={noop}
+            onNodeExpand={noop}
+            onToggleCollapse={noop}
+            readOnly
+        />
+    </div>
+  );
+};
+
+export default SharedMapViewer;
@@ -0,0 +1,56 @@
+// Relay for collaborative editing: forwards every message to the other clients
+// in the same room (the URL path) and keeps no document of its own. Run with
+// `npm run relay`; PORT defaults to 1234.
+import { WebSocketServer, WebSocket } from 'ws';
+
+const PORT = Number(process.env.PORT) || 1234;
+// Sockets that miss a ping for this long are dropped
+const PING_INTERVAL = 30000;
+
+const rooms = new Map();
+const wss = new WebSocketServer({ port: PORT });
+
+const broadcast = (peers, sender, data) => {
+  peers.forEach(peer => {
+    if (peer !== sender && peer.readyState === WebSocket.OPEN) peer.send(data);
+  });
+};
+
+wss.on('connection', (socket, request) => {
+  const room = decodeURIComponent(new URL(request.url || '/', 'http://relay').pathname.slice(1)) || 'default';
+  if (!rooms.has(room)) rooms.set(room, new Set());
+  const peers = rooms.get(room);
+  peers.add(socket);
+
+  socket.isAlive = true;
+  socket.on('pong', () => { socket.isAlive = true; });
+
+  socket.on('message', (data) => {
+    const text = data.toString();
+    // Remember who is on this socket, to say so when it drops without a goodbye
+    if (socket.clientId === undefined) {
+      try {
+        socket.clientId = JSON.parse(text).clientId;
+      } catch (e) {
+        // Not ours to validate; clients ignore what they cannot parse
+      }
+    }
+    broadcast(peers, socket, text);
+  });
+
+  socket.on('close', () => {
+    peers.delete(socket);
+    if (peers.size === 0) rooms.delete(room);
+    if (socket.clientId !== undefined) broadcast(peers, socket, JSON.stringify({ type: 'leave', clientId: socket.clientId }));
+  });
+});
+
+setInterval(() => {
+  wss.clients.forEach(socket => {
+    if (!socket.isAlive) return socket.terminate();
+    socket.isAlive = false;
+    socket.ping();
+  });
+}, PING_INTERVAL);
+
+console.log(`Relay listening on ws://localhost:${PORT}`);
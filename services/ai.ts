@@ -0,0 +1,334 @@
+
+import { AIProviderId, AIProviderSettings, GenerationOptions, MindMapNode, SecondaryLink } from "../types";
+import { geminiProvider } from "./gemini";
+import { openAIProvider } from "./openai";
+import { localProvider } from "./local";
+import {
+  DEFAULT_GENERATION_OPTIONS,
+  PRESETS,
+  MIND_MAP_SCHEMA,
+  LINK_SUGGESTIONS_SCHEMA,
+  buildTextPrompt,
+  buildUrlPrompt,
+  buildExpandPrompt,
+  buildSuggestLinksPrompt,
+  buildSystemInstruction,
+  extractJson,
+  parsePartialNodes,
+} from "./prompt";
+import { AIError, toAIError, withRetry } from "./errors";
+
+export interface CompletionRequest {
+  system?: string;
+  prompt: string;
+  // JSON Schema the response must follow. Ignored when webSearch is set.
+  schema?: object;
+  // Let the model browse the web (only for providers with supportsWebSearch).
+  webSearch?: boolean;
+  // Aborts the request; providers pass it to their HTTP client.
+  signal?: AbortSignal;
+}
+
+/**
+ * A backend that can turn a prompt into text. Providers know nothing about
+ * mind maps; prompting and parsing live in this module so every backend
+ * produces the same structure.
+ */
+export interface AIProvider {
+  id: AIProviderId;
+  label: string;
+  defaultModel: string;
+  defaultBaseUrl?: string;
+  requiresApiKey: boolean;
+  supportsWebSearch: boolean;
+  complete(request: CompletionRequest, settings: AIProviderSettings): Promise<string>;
+  // Yields the response text in pieces as it is produced. Optional; callers fall back to complete().
+  stream?(request: CompletionRequest, settings: AIProviderSettings): AsyncIterable<string>;
+}
+
+// Raw model output: ids and links are unchecked until they go through utils/normalize
+export interface GeneratedMindMap {
+  nodes: MindMapNode[];
+  links: SecondaryLink[];
+}
+
+export const PROVIDERS: Record<AIProviderId, AIProvider> = {
+  gemini: geminiProvider,
+  openai: openAIProvider,
+  local: localProvider,
+};
+
+export const DEFAULT_PROVIDER_SETTINGS: AIProviderSettings = { provider: "gemini" };
+export const DEFAULT_TIMEOUT_SECONDS = 60;
+// Anything shorter would time out before most providers answer
+export const MIN_TIMEOUT_SECONDS = 5;
+
+const clampTimeout = (seconds?: number) => seconds ? Math.max(MIN_TIMEOUT_SECONDS, seconds) : undefined;
+
+const SETTINGS_KEY = "mindgenius.ai-settings";
+const OPTIONS_KEY = "mindgenius.generation-options";
+
+export const loadProviderSettings = (): AIProviderSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || "null");
+    if (stored && stored.provider in PROVIDERS) return stored;
+  } catch (e) {
+    // Corrupt settings fall back to the default provider
+  }
+  return DEFAULT_PROVIDER_SETTINGS;
+};
+
+export const saveProviderSettings = (settings: AIProviderSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify({ ...settings, timeoutSeconds: clampTimeout(settings.timeoutSeconds) }));
+};
+
+export const loadGenerationOptions = (): GenerationOptions => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(OPTIONS_KEY) || "null");
+    if (stored && stored.preset in PRESETS) return { ...DEFAULT_GENERATION_OPTIONS, ...stored };
+  } catch (e) {
+    // Corrupt options fall back to the defaults
+  }
+  return DEFAULT_GENERATION_OPTIONS;
+};
+
+export const saveGenerationOptions = (options: GenerationOptions) => {
+  localStorage.setItem(OPTIONS_KEY, JSON.stringify(options));
+};
+
+// "auto" treats input starting with http(s):// as a page to read; "text" always sends it as text
+type InputMode = "auto" | "text";
+
+const buildMindMapRequest = (
+  input: string,
+  provider: AIProvider,
+  options: GenerationOptions,
+  signal?: AbortSignal,
+  mode: InputMode = "auto"
+): CompletionRequest => {
+  const trimmedInput = input.trim();
+  const isUrl = mode === "auto" && /^https?:\/\//i.test(trimmedInput);
+
+  if (isUrl) {
+    // URL MODE: the provider researches the page itself
+    if (!provider.supportsWebSearch) {
+      throw new Error(`${provider.label} cannot read web pages. Paste the page text instead.`);
+    }
+    return { system: buildSystemInstruction(options), prompt: buildUrlPrompt(trimmedInput, options), webSearch: true, signal };
+  }
+
+  // TEXT MODE: standard extraction with strict Schema
+  return {
+    system: buildSystemInstruction(options),
+    prompt: buildTextPrompt(trimmedInput, options),
+    schema: MIND_MAP_SCHEMA,
+    signal,
+  };
+};
+
+/**
+ * One attempt's abort signal: fires when the caller cancels or when `timeoutMs`
+ * passes without a call to `touch()`. `finish()` turns the abort into the
+ * matching AIError and must be called when the attempt ends.
+ */
+const createAttempt = (timeoutMs: number, signal?: AbortSignal) => {
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const touch = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+  };
+  const cancel = () => controller.abort();
+  signal?.addEventListener("abort", cancel, { once: true });
+  touch();
+
+  return {
+    signal: controller.signal,
+    touch,
+    finish: (error?: unknown): AIError | undefined => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", cancel);
+      if (signal?.aborted) return new AIError("cancelled", "Generation cancelled.");
+      if (timedOut) return new AIError("timeout", `No response after ${Math.round(timeoutMs / 1000)} seconds.`);
+      return error === undefined ? undefined : toAIError(error);
+    },
+  };
+};
+
+const timeoutOf = (settings: AIProviderSettings) => (clampTimeout(settings.timeoutSeconds) || DEFAULT_TIMEOUT_SECONDS) * 1000;
+
+// provider.complete with a timeout per attempt and retries for transient failures
+const complete = (provider: AIProvider, request: CompletionRequest, settings: AIProviderSettings): Promise<string> =>
+  withRetry(async () => {
+    const attempt = createAttempt(timeoutOf(settings), request.signal);
+    try {
+      const text = await provider.complete({ ...request, signal: attempt.signal }, settings);
+      attempt.finish();
+      return text;
+    } catch (e) {
+      throw attempt.finish(e);
+    }
+  }, request.signal);
+
+/**
+ * provider.stream with an idle timeout. Only opening the stream is retried:
+ * once text has reached the caller, a failure is surfaced instead.
+ */
+async function* stream(provider: AIProvider, request: CompletionRequest, settings: AIProviderSettings): AsyncGenerator<string> {
+  const { attempt, iterator, first } = await withRetry(async () => {
+    const attempt = createAttempt(timeoutOf(settings), request.signal);
+    const iterator = provider.stream!({ ...request, signal: attempt.signal }, settings)[Symbol.asyncIterator]();
+    try {
+      return { attempt, iterator, first: await iterator.next() };
+    } catch (e) {
+      throw attempt.finish(e);
+    }
+  }, request.signal);
+
+  try {
+    for (let next = first; !next.done; next = await iterator.next()) {
+      attempt.touch();
+      yield next.value;
+    }
+  } catch (e) {
+    throw attempt.finish(e);
+  } finally {
+    // Also runs when the caller stops early, so the timer never outlives the stream
+    attempt.finish();
+  }
+}
+
+const parseMindMapResponse = (text: string): GeneratedMindMap => {
+  const parsed = extractJson(text);
+  if (!parsed.nodes || !Array.isArray(parsed.nodes)) {
+    throw new AIError("parse", "Invalid JSON structure returned by AI");
+  }
+  return { nodes: parsed.nodes, links: Array.isArray(parsed.links) ? parsed.links : [] };
+};
+
+// Labels from the root down to nodeId
+const getNodePath = (nodes: MindMapNode[], nodeId: string): string[] => {
+  const path: string[] = [];
+  let current = nodes.find(n => n.id === nodeId);
+  while (current) {
+    path.unshift(current.label);
+    const parentId = current.parentId;
+    current = parentId ? nodes.find(n => n.id === parentId) : undefined;
+  }
+  return path;
+};
+
+export const generateMindMapFromText = async (
+  input: string,
+  settings: AIProviderSettings = DEFAULT_PROVIDER_SETTINGS,
+  options: GenerationOptions = DEFAULT_GENERATION_OPTIONS,
+  signal?: AbortSignal
+): Promise<GeneratedMindMap> => {
+  const provider = PROVIDERS[settings.provider];
+  const responseText = await complete(provider, buildMindMapRequest(input, provider, options, signal), settings);
+  return parseMindMapResponse(responseText);
+};
+
+/**
+ * Same as generateMindMapFromText, but the input is always text: a document
+ * or chunk that happens to start with a link is not sent as a page to browse.
+ */
+export const generateMindMapFromDocumentText = async (
+  text: string,
+  settings: AIProviderSettings = DEFAULT_PROVIDER_SETTINGS,
+  options: GenerationOptions = DEFAULT_GENERATION_OPTIONS,
+  signal?: AbortSignal
+): Promise<GeneratedMindMap> => {
+  const provider = PROVIDERS[settings.provider];
+  const responseText = await complete(provider, buildMindMapRequest(text, provider, options, signal, "text"), settings);
+  return parseMindMapResponse(responseText);
+};
+
+/**
+ * Streams a mind map as the model writes it. Each yielded map holds every node
+ * received so far; the last one is the complete, fully parsed result and the
+ * only one carrying cross-links.
+ */
+export async function* streamMindMapFromText(
+  input: string,
+  settings: AIProviderSettings = DEFAULT_PROVIDER_SETTINGS,
+  options: GenerationOptions = DEFAULT_GENERATION_OPTIONS,
+  signal?: AbortSignal
+): AsyncGenerator<GeneratedMindMap> {
+  const provider = PROVIDERS[settings.provider];
+  const request = buildMindMapRequest(input, provider, options, signal);
+
+  if (!provider.stream) {
+    yield parseMindMapResponse(await complete(provider, request, settings));
+    return;
+  }
+
+  let responseText = "";
+  let emitted = 0;
+  for await (const chunk of stream(provider, request, settings)) {
+    responseText += chunk;
+    const partial = parsePartialNodes(responseText);
+    if (partial.length > emitted) {
+      emitted = partial.length;
+      yield { nodes: partial, links: [] };
+    }
+  }
+  yield parseMindMapResponse(responseText);
+}
+
+/**
+ * Asks the model for new children of one node. `nodes` is the whole map, used
+ * for the ancestor path and to avoid repeating existing children. The returned
+ * nodes are raw model output rooted at `nodeId`; callers normalize and lay them out.
+ */
+export const expandNodeWithAI = async (
+  nodes: MindMapNode[],
+  nodeId: string,
+  settings: AIProviderSettings = DEFAULT_PROVIDER_SETTINGS,
+  options: GenerationOptions = DEFAULT_GENERATION_OPTIONS,
+  signal?: AbortSignal
+): Promise<MindMapNode[]> => {
+  const node = nodes.find(n => n.id === nodeId);
+  if (!node) throw new Error("Node not found");
+
+  const existingChildren = nodes.filter(n => n.parentId === nodeId).map(n => n.label);
+
+  const provider = PROVIDERS[settings.provider];
+  const responseText = await complete(provider, {
+    system: buildSystemInstruction(options),
+    prompt: buildExpandPrompt(getNodePath(nodes, nodeId), node, existingChildren),
+    schema: MIND_MAP_SCHEMA,
+    signal,
+  }, settings);
+  return parseMindMapResponse(responseText).nodes;
+};
+
+/**
+ * Asks the model for new cross-links between existing nodes. Suggestions are
+ * unchecked model output; callers validate them and let the user review them.
+ */
+export const suggestLinksWithAI = async (
+  nodes: MindMapNode[],
+  links: SecondaryLink[],
+  settings: AIProviderSettings = DEFAULT_PROVIDER_SETTINGS,
+  options: GenerationOptions = DEFAULT_GENERATION_OPTIONS,
+  signal?: AbortSignal
+): Promise<SecondaryLink[]> => {
+  const provider = PROVIDERS[settings.provider];
+  const responseText = await complete(provider, {
+    system: buildSystemInstruction(options),
+    prompt: buildSuggestLinksPrompt(
+      nodes.map(n => ({ id: n.id, path: getNodePath(nodes, n.id).join(" > ") })),
+      links
+    ),
+    schema: LINK_SUGGESTIONS_SCHEMA,
+    signal,
+  }, settings);
+
+  const parsed = extractJson(responseText);
+  return Array.isArray(parsed.links) ? parsed.links : [];
+};
@@ -0,0 +1,317 @@
+
+import * as Y from 'yjs';
+import { Collaborator, CollabStatus, CollabUser, MindMapNode, SecondaryLink } from '../types';
+import { base64ToBytes, bytesToBase64 } from '../utils/base64';
+import { MapState, Patch, applyPatch, diffMapState } from '../utils/history';
+
+const SETTINGS_KEY = 'mindgenius.collab';
+
+export const DEFAULT_RELAY_URL = 'ws://localhost:1234';
+
+export const USER_COLORS = ['#f43f5e', '#f97316', '#eab308', '#22c55e', '#06b6d4', '#8b5cf6', '#ec4899'];
+
+// With nobody answering this soon after connecting, the room is taken to be empty
+const SEED_DELAY = 1000;
+const RECONNECT_DELAYS = [1000, 2000, 5000, 10000];
+const CURSOR_INTERVAL = 50;
+const PRESENCE_HEARTBEAT = 10000;
+// Participants not heard from for this long are assumed gone
+const PRESENCE_TIMEOUT = 30000;
+// Edits closer together than this are undone as one step
+const UNDO_CAPTURE = 500;
+
+// Transaction origins. Only LOCAL transactions are on the undo stack.
+const LOCAL = Symbol('local');
+const SEED = Symbol('seed');
+const REMOTE = Symbol('remote');
+
+export interface CollabSettings {
+  user: CollabUser;
+  relayUrl: string;
+}
+
+export const loadCollabSettings = (): CollabSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || "null");
+    if (stored?.user?.name && stored.relayUrl) return stored;
+  } catch (e) {
+    // Corrupt settings fall back to a fresh guest identity
+  }
+  return {
+    user: {
+      name: `Guest ${Math.floor(100 + Math.random() * 900)}`,
+      color: USER_COLORS[Math.floor(Math.random() * USER_COLORS.length)],
+    },
+    relayUrl: DEFAULT_RELAY_URL,
+  };
+};
+
+export const saveCollabSettings = (settings: CollabSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// What goes over the relay. Every message names its sender so the relay can announce departures.
+type Message =
+  | { type: 'hello', clientId: number, stateVector: string }
+  | { type: 'update', clientId: number, update: string }
+  | { type: 'presence', clientId: number, user: CollabUser, cursor?: Collaborator['cursor'], selectedNodeId?: string | null }
+  | { type: 'leave', clientId: number };
+
+const sameValue = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+export interface CollabHandlers {
+  // The shared map changed through someone else's edit, or through undo/redo
+  onChange: (nodes: MindMapNode[], links: SecondaryLink[]) => void;
+  onStatusChange: (status: CollabStatus) => void;
+  onPeersChange: (peers: Collaborator[]) => void;
+  onHistoryChange: (canUndo: boolean, canRedo: boolean) => void;
+}
+
+export interface CollabOptions {
+  relayUrl: string;
+  room: string;
+  user: CollabUser;
+  // The local copy of the map, used to start the room if nobody else is in it
+  nodes: MindMapNode[];
+  links: SecondaryLink[];
+  // False when the local copy is only a placeholder: wait for a peer however long it takes
+  seed: boolean;
+}
+
+export interface CollabSession {
+  room: string;
+  // Applies one local edit to the shared document, touching only the fields it changed
+  write: (patch: Patch) => void;
+  // The shared map as it is now, with everyone's edits
+  read: () => MapState;
+  setPresence: (presence: { user?: CollabUser, cursor?: Collaborator['cursor'], selectedNodeId?: string | null }) => void;
+  undo: () => void;
+  redo: () => void;
+  // Everything written until endGesture is undone as one step, however long it takes
+  startGesture: () => void;
+  // Ends the current undo step, so the next edit is undone on its own
+  endGesture: () => void;
+  leave: () => void;
+}
+
+/**
+ * Joins a room on the relay. Nodes live in a Yjs document as one Y.Map per
+ * node, so concurrent edits to different fields of a node both survive;
+ * cross-links are whole values keyed by their endpoints. Undo and redo only
+ * touch edits made through this session's `write`.
+ */
+export const joinSession = (options: CollabOptions, handlers: CollabHandlers): CollabSession => {
+  const doc = new Y.Doc();
+  const nodesMap = doc.getMap<Y.Map<unknown>>('nodes');
+  const linksMap = doc.getMap<SecondaryLink>('links');
+  const undoManager = new Y.UndoManager([nodesMap, linksMap], { trackedOrigins: new Set([LOCAL]), captureTimeout: UNDO_CAPTURE });
+
+  let socket: WebSocket | null = null;
+  let closed = false;
+  let ready = false;
+  let reconnectAttempt = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let seedTimer: ReturnType<typeof setTimeout> | undefined;
+  let cursorTimer: ReturnType<typeof setTimeout> | undefined;
+  let pending = { nodes: options.nodes, links: options.links };
+  let presence = { user: options.user, cursor: null as Collaborator['cursor'], selectedNodeId: null as string | null };
+  const peers = new Map<number, Collaborator & { lastSeen: number }>();
+
+  const read = () => ({
+    nodes: Array.from(nodesMap.values(), yNode => yNode.toJSON() as MindMapNode),
+    links: Array.from(linksMap.values()),
+  });
+
+  // Only the fields an edit changed are set, so whatever others changed meanwhile is kept
+  const apply = (patch: Patch) => {
+    patch.nodes.forEach(({ key, before, after }) => {
+      if (!after) {
+        nodesMap.delete(key);
+        return;
+      }
+      let yNode = nodesMap.get(key);
+      if (!yNode) {
+        // Someone else deleted the node; their delete wins over our edit
+        if (before) return;
+        yNode = new Y.Map();
+        nodesMap.set(key, yNode);
+      }
+      const old = (before ?? {}) as unknown as Record<string, unknown>;
+      const fields = after as unknown as Record<string, unknown>;
+      new Set([...Object.keys(old), ...Object.keys(fields)]).forEach(field => {
+        if (sameValue(old[field], fields[field])) return;
+        if (fields[field] === undefined) yNode!.delete(field);
+        else yNode!.set(field, fields[field]);
+      });
+    });
+
+    patch.links.forEach(({ key, after }) => {
+      if (after) linksMap.set(key, after);
+      else linksMap.delete(key);
+    });
+  };
+
+  const send = (message: Message) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const sendPresence = () => send({ type: 'presence', clientId: doc.clientID, ...presence });
+
+  const publishPeers = () => handlers.onPeersChange(Array.from(peers.values(), ({ lastSeen, ...peer }) => peer));
+
+  const becomeReady = () => {
+    if (ready) return;
+    ready = true;
+    clearTimeout(seedTimer);
+    handlers.onStatusChange('connected');
+  };
+
+  doc.on('update', (update: Uint8Array, origin: unknown) => {
+    if (origin !== REMOTE) send({ type: 'update', clientId: doc.clientID, update: bytesToBase64(update) });
+  });
+
+  doc.on('afterTransaction', (transaction: Y.Transaction) => {
+    if (transaction.origin === LOCAL || transaction.origin === SEED || transaction.changed.size === 0) return;
+    const { nodes, links } = read();
+    handlers.onChange(nodes, links);
+  });
+
+  const publishHistory = () => handlers.onHistoryChange(undoManager.canUndo(), undoManager.canRedo());
+  undoManager.on('stack-item-added', publishHistory);
+  undoManager.on('stack-item-popped', publishHistory);
+  undoManager.on('stack-cleared', publishHistory);
+
+  const receive = (message: Message) => {
+    if (message.clientId === doc.clientID) return;
+    switch (message.type) {
+      case 'hello':
+        // Send the newcomer what it is missing, and show up in its participant list
+        send({ type: 'update', clientId: doc.clientID, update: bytesToBase64(Y.encodeStateAsUpdate(doc, base64ToBytes(message.stateVector))) });
+        sendPresence();
+        break;
+      case 'update':
+        Y.applyUpdate(doc, base64ToBytes(message.update), REMOTE);
+        // A peer's map replaces the local copy; a peer that is itself still waiting sends nothing useful
+        if (nodesMap.size > 0) becomeReady();
+        break;
+      case 'presence':
+        peers.set(message.clientId, {
+          clientId: message.clientId,
+          ...message.user,
+          cursor: message.cursor,
+          selectedNodeId: message.selectedNodeId,
+          lastSeen: Date.now(),
+        });
+        publishPeers();
+        break;
+      case 'leave':
+        if (peers.delete(message.clientId)) publishPeers();
+        break;
+    }
+  };
+
+  const connect = () => {
+    handlers.onStatusChange('connecting');
+    const ws = new WebSocket(`${options.relayUrl.replace(/\/+$/, '')}/${encodeURIComponent(options.room)}`);
+    socket = ws;
+
+    ws.onopen = () => {
+      reconnectAttempt = 0;
+      send({ type: 'hello', clientId: doc.clientID, stateVector: bytesToBase64(Y.encodeStateVector(doc)) });
+      if (ready) {
+        // Pass on anything edited while offline
+        send({ type: 'update', clientId: doc.clientID, update: bytesToBase64(Y.encodeStateAsUpdate(doc)) });
+        handlers.onStatusChange('connected');
+      } else if (options.seed) {
+        seedTimer = setTimeout(() => {
+          doc.transact(() => apply(diffMapState({ nodes: [], links: [] }, pending)), SEED);
+          becomeReady();
+        }, SEED_DELAY);
+      } else {
+        handlers.onStatusChange('waiting');
+      }
+      sendPresence();
+    };
+
+    ws.onmessage = (event) => {
+      try {
+        receive(JSON.parse(event.data));
+      } catch (e) {
+        console.error('Ignoring malformed relay message', e);
+      }
+    };
+
+    ws.onclose = () => {
+      if (closed || socket !== ws) return;
+      socket = null;
+      clearTimeout(seedTimer);
+      peers.clear();
+      publishPeers();
+      handlers.onStatusChange('offline');
+      reconnectTimer = setTimeout(connect, RECONNECT_DELAYS[Math.min(reconnectAttempt++, RECONNECT_DELAYS.length - 1)]);
+    };
+  };
+
+  // Keep our entry alive on the other side, and drop peers that vanished without a goodbye
+  const heartbeat = setInterval(() => {
+    sendPresence();
+    const cutoff = Date.now() - PRESENCE_TIMEOUT;
+    const stale = Array.from(peers.values()).filter(p => p.lastSeen < cutoff);
+    stale.forEach(p => peers.delete(p.clientId));
+    if (stale.length > 0) publishPeers();
+  }, PRESENCE_HEARTBEAT);
+
+  connect();
+
+  return {
+    room: options.room,
+
+    write: (patch) => {
+      if (!ready) {
+        pending = applyPatch(pending, patch, true);
+        return;
+      }
+      doc.transact(() => apply(patch), LOCAL);
+    },
+
+    setPresence: (changes) => {
+      presence = { ...presence, ...changes };
+      // Cursor moves arrive per mouse event; send at most one per interval, and always the latest
+      if (Object.keys(changes).length === 1 && 'cursor' in changes) {
+        if (!cursorTimer) {
+          cursorTimer = setTimeout(() => {
+            cursorTimer = undefined;
+            sendPresence();
+          }, CURSOR_INTERVAL);
+        }
+        return;
+      }
+      sendPresence();
+    },
+
+    read: () => ready ? read() : pending,
+
+    undo: () => { undoManager.undo(); },
+    redo: () => { undoManager.redo(); },
+    startGesture: () => {
+      undoManager.stopCapturing();
+      undoManager.captureTimeout = Infinity;
+    },
+    endGesture: () => {
+      undoManager.captureTimeout = UNDO_CAPTURE;
+      undoManager.stopCapturing();
+    },
+
+    leave: () => {
+      closed = true;
+      send({ type: 'leave', clientId: doc.clientID });
+      clearTimeout(reconnectTimer);
+      clearTimeout(seedTimer);
+      clearTimeout(cursorTimer);
+      clearInterval(heartbeat);
+      socket?.close();
+      undoManager.destroy();
+      doc.destroy();
+    },
+  };
+};
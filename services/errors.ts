@@ -0,0 +1,81 @@
+
+export type AIErrorKind =
+  | "api-key"    // key missing or rejected
+  | "quota"      // rate limit or exhausted quota
+  | "safety"     // the provider refused the content
+  | "parse"      // the response was not the JSON we asked for
+  | "network"    // provider unreachable or a transient server error
+  | "timeout"
+  | "cancelled";
+
+const RETRYABLE: AIErrorKind[] = ["quota", "network", "timeout"];
+
+/**
+ * Error raised by the AI services. `kind` tells the UI which recovery to offer;
+ * anything not recognised is reported as a network error, the most common cause.
+ */
+export class AIError extends Error {
+  kind: AIErrorKind;
+
+  constructor(kind: AIErrorKind, message: string) {
+    super(message);
+    this.name = "AIError";
+    this.kind = kind;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE.includes(this.kind);
+  }
+}
+
+export const errorFromStatus = (status: number, message: string): AIError => {
+  if (status === 401 || status === 403) return new AIError("api-key", message);
+  if (status === 429) return new AIError("quota", message);
+  return new AIError("network", message);
+};
+
+/** Maps anything a provider or SDK throws onto an AIError. */
+export const toAIError = (error: unknown): AIError => {
+  if (error instanceof AIError) return error;
+  if (error instanceof DOMException && error.name === "AbortError") {
+    return new AIError("cancelled", "Generation cancelled.");
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  // The Gemini SDK's ApiError carries the HTTP status
+  const status = typeof error === "object" && error !== null && "status" in error ? error.status : undefined;
+  if (typeof status === "number" && status) return errorFromStatus(status, message);
+  if (/RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) return new AIError("quota", message);
+  if (/API key/i.test(message)) return new AIError("api-key", message);
+  if (/SAFETY|blocked/i.test(message)) return new AIError("safety", message);
+  return new AIError("network", message);
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(new AIError("cancelled", "Generation cancelled."));
+    }, { once: true });
+  });
+
+/**
+ * Runs `attempt` until it succeeds, retrying retryable AIErrors with
+ * exponential backoff (1s, 2s, 4s plus jitter). Stops at once if `signal` aborts.
+ */
+export const withRetry = async <T>(
+  attempt: () => Promise<T>,
+  signal?: AbortSignal,
+  retries: number = 3
+): Promise<T> => {
+  for (let i = 0; ; i++) {
+    try {
+      return await attempt();
+    } catch (e) {
+      const error = signal?.aborted ? new AIError("cancelled", "Generation cancelled.") : toAIError(e);
+      if (!error.retryable || i >= retries) throw error;
+      await sleep(1000 * 2 ** i + Math.random() * 250, signal);
+    }
+  }
+};
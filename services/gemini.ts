@@ -1,127 +1,74 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { MindMapNode } from "../types";
+import { GoogleGenAI, GenerateContentParameters, GenerateContentResponse, FinishReason } from "@google/genai";
+import type { AIProvider, CompletionRequest } from "./ai";
+import { AIProviderSettings } from "../types";
+import { AIError } from "./errors";
 
-const SYSTEM_INSTRUCTION = `
-You are an expert at structuring information into clear, hierarchical mind maps.
-Your goal is to analyze text or documents and extract the core topics, sub-topics, and key details.
-Return the result as a flat list of nodes where each node has a unique ID and a parent ID.
-The root node must have 'parentId' as null.
-Keep labels concise (1-5 words). Use the description for extra context if strictly necessary.
-`;
+const DEFAULT_MODEL = "gemini-2.5-flash";
 
-const extractJson = (text: string): any => {
-    try {
-        // Find the first '{' and the last '}'
-        const firstOpen = text.indexOf('{');
-        const lastClose = text.lastIndexOf('}');
-        if (firstOpen !== -1 && lastClose !== -1) {
-            const jsonString = text.substring(firstOpen, lastClose + 1);
-            return JSON.parse(jsonString);
-        }
-        throw new Error("No JSON found");
-    } catch (e) {
-        throw new Error("Failed to parse AI response structure");
-    }
-}
-
-export const generateMindMapFromText = async (input: string): Promise<MindMapNode[]> => {
-  const apiKey = process.env.API_KEY;
+const createRequest = (request: CompletionRequest, settings: AIProviderSettings) => {
+  const apiKey = settings.apiKey || process.env.API_KEY;
   if (!apiKey) {
-    throw new Error("API Key is missing.");
+    throw new AIError("api-key", "API Key is missing.");
   }
 
-  const ai = new GoogleGenAI({ apiKey });
-  const trimmedInput = input.trim();
-  const isUrl = /^https?:\/\//i.test(trimmedInput);
+  // Note: responseSchema and responseMimeType are NOT compatible with tools in the current API version,
+  // so web search requests rely on the prompt to ask for JSON.
+  const params: GenerateContentParameters = {
+    model: settings.model || DEFAULT_MODEL,
+    contents: request.prompt,
+    config: request.webSearch
+      ? { systemInstruction: request.system, tools: [{ googleSearch: {} }], abortSignal: request.signal }
+      : {
+          systemInstruction: request.system,
+          abortSignal: request.signal,
+          responseMimeType: request.schema ? "application/json" : undefined,
+          responseJsonSchema: request.schema,
+        },
+  };
+
+  return { ai: new GoogleGenAI({ apiKey }), params };
+};
+
+const BLOCKED_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+];
 
-  if (isUrl) {
-      // URL MODE: Use Google Search Tool
-      // Note: responseSchema and responseMimeType are NOT compatible with tools in the current API version,
-      // so we use prompt engineering to request JSON.
-      const prompt = `
-        Analyze the content of the following website: ${trimmedInput}
-        
-        Create a comprehensive mind map based on the key information, topics, and details found on the page.
-        Structure the output as a flat list of nodes suitable for a tree diagram.
-        
-        STRICTLY return the result as a JSON object with the following structure:
-        {
-            "nodes": [
-                { 
-                    "id": "string (unique)", 
-                    "parentId": "string (or null for root)", 
-                    "label": "string (concise title)", 
-                    "description": "string (optional detailed summary)" 
-                }
-            ]
-        }
-        
-        Important Rules:
-        1. The root node must have "parentId": null.
-        2. The root node's description should mention "Source: ${trimmedInput}".
-        3. Do not include any markdown formatting (like \`\`\`json) outside of the JSON block if possible, but valid JSON is the priority.
-      `;
+// Blocked prompts come back as an empty response with a block or finish reason
+const throwIfBlocked = (response: GenerateContentResponse) => {
+  const finishReason = response.candidates?.[0]?.finishReason;
+  const reason = response.promptFeedback?.blockReason
+    || (BLOCKED_FINISH_REASONS.includes(finishReason) ? finishReason : undefined);
+  if (reason) throw new AIError("safety", `Gemini blocked this request (${reason}).`);
+};
 
-      const response = await ai.models.generateContent({
-          model: "gemini-2.5-flash",
-          contents: prompt,
-          config: {
-              tools: [{ googleSearch: {} }],
-          }
-      });
+export const geminiProvider: AIProvider = {
+  id: "gemini",
+  label: "Google Gemini",
+  defaultModel: DEFAULT_MODEL,
+  requiresApiKey: true,
+  supportsWebSearch: true,
 
-      const jsonText = response.text;
-      if (!jsonText) throw new Error("No response from AI");
-      
-      const parsed = extractJson(jsonText);
-      if (!parsed.nodes || !Array.isArray(parsed.nodes)) {
-          throw new Error("Invalid JSON structure returned by AI");
-      }
-      return parsed.nodes;
+  async complete(request, settings) {
+    const { ai, params } = createRequest(request, settings);
+    const response = await ai.models.generateContent(params);
 
-  } else {
-      // TEXT MODE: Use standard extraction with strict Schema
-      const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: `Create a comprehensive mind map from the following text: \n\n${trimmedInput}`,
-        config: {
-          systemInstruction: SYSTEM_INSTRUCTION,
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              nodes: {
-                type: Type.ARRAY,
-                description: "A flat list of all nodes in the mind map tree.",
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    id: { type: Type.STRING, description: "Unique identifier, e.g., 'root', '1', '1-1'" },
-                    parentId: { type: Type.STRING, description: "ID of the parent node. Null for the root node.", nullable: true },
-                    label: { type: Type.STRING, description: "Concise title of the node" },
-                    description: { type: Type.STRING, description: "Optional brief detail", nullable: true },
-                  },
-                  required: ["id", "label"],
-                },
-              },
-            },
-            required: ["nodes"],
-          },
-        },
-      });
+    throwIfBlocked(response);
+    const text = response.text;
+    if (!text) throw new AIError("parse", "No response from AI");
+    return text;
+  },
 
-      const jsonText = response.text;
-      if (!jsonText) {
-        throw new Error("No response from AI");
-      }
+  async *stream(request, settings) {
+    const { ai, params } = createRequest(request, settings);
+    const response = await ai.models.generateContentStream(params);
 
-      try {
-        const parsed = JSON.parse(jsonText);
-        return parsed.nodes;
-      } catch (e) {
-        console.error("Failed to parse AI response", e);
-        throw new Error("Failed to parse AI response structure");
-      }
-  }
+    for await (const chunk of response) {
+      throwIfBlocked(chunk);
+      if (chunk.text) yield chunk.text;
+    }
+  },
 };
@@ -0,0 +1,12 @@
+
+import { createOpenAICompatibleProvider } from "./openai";
+
+// Ollama and llama.cpp's server both serve the OpenAI protocol under /v1,
+// so a local model is just that adapter pointed at localhost without a key.
+export const localProvider = createOpenAICompatibleProvider({
+  id: "local",
+  label: "Local model (Ollama / llama.cpp)",
+  defaultModel: "llama3.1",
+  defaultBaseUrl: "http://localhost:11434/v1",
+  requiresApiKey: false,
+});
@@ -0,0 +1,129 @@
+
+import type { AIProvider, CompletionRequest } from "./ai";
+import { AIProviderId, AIProviderSettings } from "../types";
+import { AIError, errorFromStatus } from "./errors";
+
+interface OpenAICompatibleOptions {
+  id: AIProviderId;
+  label: string;
+  defaultModel: string;
+  defaultBaseUrl: string;
+  requiresApiKey: boolean;
+}
+
+const buildBody = (request: CompletionRequest, model: string, stream: boolean) => {
+  const messages = [];
+  if (request.system) messages.push({ role: "system", content: request.system });
+  messages.push({ role: "user", content: request.prompt });
+
+  return {
+    model,
+    messages,
+    stream,
+    response_format: request.schema
+      ? { type: "json_schema", json_schema: { name: "mind_map", schema: request.schema } }
+      : undefined,
+  };
+};
+
+const send = async (
+  options: OpenAICompatibleOptions,
+  request: CompletionRequest,
+  settings: AIProviderSettings,
+  stream: boolean
+): Promise<Response> => {
+  if (options.requiresApiKey && !settings.apiKey) {
+    throw new AIError("api-key", "API Key is missing.");
+  }
+
+  const baseUrl = (settings.baseUrl || options.defaultBaseUrl).replace(/\/+$/, "");
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (settings.apiKey) headers.Authorization = `Bearer ${settings.apiKey}`;
+
+  let response: Response;
+  try {
+    response = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(buildBody(request, settings.model || options.defaultModel, stream)),
+      signal: request.signal,
+    });
+  } catch (e) {
+    if (request.signal?.aborted) throw e;
+    throw new AIError("network", `Could not reach ${options.label} at ${baseUrl}`);
+  }
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => "");
+    throw errorFromStatus(response.status, `${options.label} request failed (${response.status})${detail ? `: ${detail.slice(0, 200)}` : ""}`);
+  }
+  return response;
+};
+
+/**
+ * Creates a provider that speaks the OpenAI `/chat/completions` protocol.
+ * Hosted OpenAI and local servers (Ollama, llama.cpp, LM Studio) all expose it,
+ * they only differ in their defaults and whether a key is needed.
+ */
+export const createOpenAICompatibleProvider = (options: OpenAICompatibleOptions): AIProvider => ({
+  id: options.id,
+  label: options.label,
+  defaultModel: options.defaultModel,
+  defaultBaseUrl: options.defaultBaseUrl,
+  requiresApiKey: options.requiresApiKey,
+  supportsWebSearch: false,
+
+  async complete(request: CompletionRequest, settings: AIProviderSettings) {
+    const response = await send(options, request, settings, false);
+    const data = await response.json();
+    const choice = data?.choices?.[0];
+    if (choice?.finish_reason === "content_filter") {
+      throw new AIError("safety", `${options.label} blocked the response for safety reasons.`);
+    }
+    const text = choice?.message?.content;
+    if (!text) throw new AIError("parse", "No response from AI");
+    return text;
+  },
+
+  async *stream(request: CompletionRequest, settings: AIProviderSettings) {
+    const response = await send(options, request, settings, true);
+    if (!response.body) throw new AIError("parse", "No response from AI");
+
+    // Server-sent events: one `data: {...}` line per delta, terminated by `data: [DONE]`
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+      for (const line of lines) {
+        const payload = line.replace(/^data:\s*/, "").trim();
+        if (!line.startsWith("data:") || !payload) continue;
+        if (payload === "[DONE]") return;
+        let choice;
+        try {
+          choice = JSON.parse(payload)?.choices?.[0];
+        } catch (e) {
+          // Ignore keep-alive or malformed event lines
+          continue;
+        }
+        if (choice?.finish_reason === "content_filter") {
+          throw new AIError("safety", `${options.label} blocked the response for safety reasons.`);
+        }
+        if (choice?.delta?.content) yield choice.delta.content as string;
+      }
+    }
+  },
+});
+
+export const openAIProvider = createOpenAICompatibleProvider({
+  id: "openai",
+  label: "OpenAI-compatible API",
+  defaultModel: "gpt-4o-mini",
+  defaultBaseUrl: "https://api.openai.com/v1",
+  requiresApiKey: true,
+});
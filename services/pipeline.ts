@@ -0,0 +1,144 @@
+
+import { AIProviderSettings, ChunkProgress, GenerationOptions, MindMapNode, SecondaryLink, SourceDocument } from "../types";
+import { generateMindMapFromDocumentText, GeneratedMindMap, DEFAULT_PROVIDER_SETTINGS } from "./ai";
+import { AIError } from "./errors";
+import { chunkText } from "../utils/chunk";
+import { normalizeNodes, normalizeLinks, withFreshIds } from "../utils/normalize";
+import { mergeMindMaps } from "../utils/merge";
+
+export interface PipelineOptions {
+  generation?: GenerationOptions;
+  signal?: AbortSignal;
+  // Called with the state of every chunk whenever one starts, finishes or fails
+  onProgress?: (progress: ChunkProgress[]) => void;
+}
+
+const withSource = (description: string | undefined, source: string) =>
+  description ? `${description}\n\nSource: ${source}` : `Source: ${source}`;
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new AIError("cancelled", "Generation cancelled.");
+};
+
+/**
+ * Map-reduce over the chunks of one source: each chunk becomes a partial map
+ * (map), and every partial map is merged into the ones before it so repeated
+ * topics collapse into one node (reduce). Yields the merged map after each chunk.
+ */
+async function* reduceChunks(
+  chunks: string[],
+  sourceIndex: number,
+  settings: AIProviderSettings,
+  onChunk: (chunk: number, status: ChunkProgress["status"]) => void,
+  options: PipelineOptions
+): AsyncGenerator<GeneratedMindMap> {
+  let nodes: MindMapNode[] = [];
+  let links: SecondaryLink[] = [];
+
+  for (let c = 0; c < chunks.length; c++) {
+    throwIfAborted(options.signal);
+    onChunk(c, "running");
+    let generated: GeneratedMindMap;
+    try {
+      generated = await generateMindMapFromDocumentText(chunks[c], settings, options.generation, options.signal);
+    } catch (error) {
+      // Out of retries the chunk shows as failed, and the whole run stops; a cancelled one is just not done
+      onChunk(c, error instanceof AIError && error.kind === "cancelled" ? "pending" : "failed");
+      throw error;
+    }
+    onChunk(c, "done");
+
+    const makeId = (id: string) => `s${sourceIndex}-c${c}-${id}`;
+    const partial = normalizeNodes(generated.nodes).nodes;
+    if (partial.length === 0) continue;
+
+    if (nodes.length === 0) {
+      nodes = withFreshIds(partial, [], makeId);
+      links = normalizeLinks(generated.links.map(l => ({ ...l, sourceId: makeId(l.sourceId), targetId: makeId(l.targetId) })), nodes);
+    } else {
+      const merged = mergeMindMaps(nodes, partial, makeId);
+      const remapped = generated.links.map(l => ({
+        ...l,
+        sourceId: merged.idMap.get(l.sourceId) ?? "",
+        targetId: merged.idMap.get(l.targetId) ?? "",
+      }));
+      nodes = merged.nodes;
+      links = [...links, ...normalizeLinks(remapped, nodes, links)];
+    }
+    yield { nodes, links };
+  }
+}
+
+/**
+ * Generates a single map from several documents. Each source is chunked and
+ * reduced on its own, then becomes a branch under a root that lists them all
+ * (a lone source keeps its own root), and every node notes its source.
+ * Yields the combined map after every chunk; the last value is the complete map.
+ */
+export async function* streamMindMapFromSources(
+  sources: SourceDocument[],
+  settings: AIProviderSettings = DEFAULT_PROVIDER_SETTINGS,
+  options: PipelineOptions = {}
+): AsyncGenerator<GeneratedMindMap> {
+  const plan = sources.map(s => chunkText(s.text));
+  const progress: ChunkProgress[] = sources.flatMap((s, i) =>
+    plan[i].map((_, chunk) => ({ source: s.name, chunk, status: "pending" as const }))
+  );
+  options.onProgress?.([...progress]);
+
+  const names = sources.map(s => s.name);
+  const root: MindMapNode = {
+    id: "root",
+    parentId: null,
+    label: names.join(", ").length <= 40 ? names.join(", ") : `${sources.length} sources`,
+    description: `Sources:\n${names.map(name => `• ${name}`).join("\n")}`,
+    x: 0,
+    y: 0,
+  };
+
+  const finished: GeneratedMindMap = { nodes: sources.length > 1 ? [root] : [], links: [] };
+  let offset = 0;
+  for (let i = 0; i < sources.length; i++) {
+    const first = offset;
+    offset += plan[i].length;
+    const onChunk = (chunk: number, status: ChunkProgress["status"]) => {
+      progress[first + chunk] = { ...progress[first + chunk], status };
+      options.onProgress?.([...progress]);
+    };
+
+    let current: GeneratedMindMap = { nodes: [], links: [] };
+    for await (const map of reduceChunks(plan[i], i, settings, onChunk, options)) {
+      current = {
+        nodes: map.nodes.map(n => ({
+          ...n,
+          parentId: n.parentId === null && sources.length > 1 ? root.id : n.parentId,
+          description: withSource(n.description, sources[i].name),
+        })),
+        links: map.links,
+      };
+      yield { nodes: [...finished.nodes, ...current.nodes], links: [...finished.links, ...current.links] };
+    }
+    finished.nodes.push(...current.nodes);
+    finished.links.push(...current.links);
+  }
+}
+
+/**
+ * Map-reduce generation for one long text that would not fit a single request.
+ * Same as a single source, without the per-node source notes.
+ */
+export async function* streamChunkedMindMap(
+  text: string,
+  settings: AIProviderSettings = DEFAULT_PROVIDER_SETTINGS,
+  options: PipelineOptions = {}
+): AsyncGenerator<GeneratedMindMap> {
+  const chunks = chunkText(text);
+  const progress: ChunkProgress[] = chunks.map((_, chunk) => ({ source: "Pasted text", chunk, status: "pending" }));
+  options.onProgress?.([...progress]);
+
+  const onChunk = (chunk: number, status: ChunkProgress["status"]) => {
+    progress[chunk] = { ...progress[chunk], status };
+    options.onProgress?.([...progress]);
+  };
+  yield* reduceChunks(chunks, 0, settings, onChunk, options);
+}
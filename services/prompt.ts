@@ -0,0 +1,235 @@
+
+// Prompts and response schema shared by every AI provider.
+import { GenerationOptions, GenerationPreset } from "../types";
+import { AIError } from "./errors";
+import { LINK_TYPES } from "../utils/links";
+
+export const DEFAULT_GENERATION_OPTIONS: GenerationOptions = {
+  preset: "general",
+  maxDepth: 4,
+  maxChildren: 7,
+  language: "",
+  labelLength: "medium",
+};
+
+export const PRESETS: Record<GenerationPreset, { label: string; focus: string; instruction: string }> = {
+  "general": {
+    label: "General",
+    focus: "comprehensive mind map",
+    instruction: "Extract the core topics, sub-topics, and key details.",
+  },
+  "study-notes": {
+    label: "Study notes",
+    focus: "study-notes mind map",
+    instruction: "Organize by concept. Put definitions, key facts and examples in descriptions so the map can be revised from.",
+  },
+  "project-plan": {
+    label: "Project plan",
+    focus: "project plan mind map",
+    instruction: "Organize into goals, workstreams, deliverables, milestones, risks and owners. Labels should be actionable.",
+  },
+  "meeting-summary": {
+    label: "Meeting summary",
+    focus: "meeting summary mind map",
+    instruction: "Organize into topics discussed, decisions made, action items (with owners if mentioned) and open questions.",
+  },
+  "argument-map": {
+    label: "Argument map",
+    focus: "argument map",
+    instruction: "The root is the main claim. Children are reasons, objections and rebuttals; link supporting and opposing points with cross-links.",
+  },
+};
+
+// Word range for labels, shared by the prompt and the enforcement pass
+export const LABEL_WORDS: Record<GenerationOptions["labelLength"], { min: number; max: number }> = {
+  short: { min: 1, max: 3 },
+  medium: { min: 1, max: 5 },
+  long: { min: 3, max: 10 },
+};
+
+export const buildSystemInstruction = (options: GenerationOptions = DEFAULT_GENERATION_OPTIONS): string => {
+  const words = LABEL_WORDS[options.labelLength];
+  return `
+You are an expert at structuring information into clear, hierarchical mind maps.
+Your goal is to analyze text or documents and build a ${PRESETS[options.preset].focus}. ${PRESETS[options.preset].instruction}
+Return the result as a flat list of nodes where each node has a unique ID and a parent ID.
+The root node must have 'parentId' as null.
+Use at most ${options.maxDepth} levels below the root and at most ${options.maxChildren} children per node.
+Keep labels concise (${words.min}-${words.max} words). Use the description for extra context if strictly necessary.
+${options.language ? `Write all labels and descriptions in ${options.language}, whatever the language of the source.` : "Write labels and descriptions in the language of the source."}
+Where two nodes in different branches are closely related, add a cross-link between them with its relationship type.
+Only link nodes that are not already parent and child, and keep cross-links few and meaningful.
+`;
+};
+
+const LINK_ITEM_SCHEMA = {
+  type: "object",
+  properties: {
+    sourceId: { type: "string", description: "ID of the node the link starts from" },
+    targetId: { type: "string", description: "ID of the node the link points to" },
+    type: { type: "string", enum: LINK_TYPES, description: "Kind of relationship" },
+    label: { type: ["string", "null"], description: "Optional 1-4 word description of the relationship" },
+  },
+  required: ["sourceId", "targetId", "type"],
+};
+
+// Plain JSON Schema so it can be handed to any provider's structured output option.
+export const MIND_MAP_SCHEMA = {
+  type: "object",
+  properties: {
+    nodes: {
+      type: "array",
+      description: "A flat list of all nodes in the mind map tree.",
+      items: {
+        type: "object",
+        properties: {
+          id: { type: "string", description: "Unique identifier, e.g., 'root', '1', '1-1'" },
+          parentId: { type: ["string", "null"], description: "ID of the parent node. Null for the root node." },
+          label: { type: "string", description: "Concise title of the node" },
+          description: { type: ["string", "null"], description: "Optional brief detail" },
+        },
+        required: ["id", "label"],
+      },
+    },
+    links: {
+      type: "array",
+      description: "Cross-links between related nodes in different branches.",
+      items: LINK_ITEM_SCHEMA,
+    },
+  },
+  required: ["nodes"],
+};
+
+export const LINK_SUGGESTIONS_SCHEMA = {
+  type: "object",
+  properties: {
+    links: { type: "array", items: LINK_ITEM_SCHEMA },
+  },
+  required: ["links"],
+};
+
+export const buildTextPrompt = (input: string, options: GenerationOptions = DEFAULT_GENERATION_OPTIONS): string =>
+  `Create a ${PRESETS[options.preset].focus} from the following text: \n\n${input}`;
+
+export const buildUrlPrompt = (url: string, options: GenerationOptions = DEFAULT_GENERATION_OPTIONS): string => `
+        Analyze the content of the following website: ${url}
+
+        Create a ${PRESETS[options.preset].focus} based on the key information, topics, and details found on the page.
+        Structure the output as a flat list of nodes suitable for a tree diagram.
+
+        STRICTLY return the result as a JSON object with the following structure:
+        {
+            "nodes": [
+                {
+                    "id": "string (unique)",
+                    "parentId": "string (or null for root)",
+                    "label": "string (concise title)",
+                    "description": "string (optional detailed summary)"
+                }
+            ],
+            "links": [
+                {
+                    "sourceId": "string (node id)",
+                    "targetId": "string (node id)",
+                    "type": "one of: ${LINK_TYPES.join(", ")}",
+                    "label": "string (optional short relationship)"
+                }
+            ]
+        }
+
+        Important Rules:
+        1. The root node must have "parentId": null.
+        2. The root node's description should mention "Source: ${url}".
+        3. "links" are optional cross-links between related nodes in different branches.
+        4. Do not include any markdown formatting (like \`\`\`json) outside of the JSON block if possible, but valid JSON is the priority.
+      `;
+
+export const extractJson = (text: string): any => {
+    try {
+        // Find the first '{' and the last '}'
+        const firstOpen = text.indexOf('{');
+        const lastClose = text.lastIndexOf('}');
+        if (firstOpen !== -1 && lastClose !== -1) {
+            const jsonString = text.substring(firstOpen, lastClose + 1);
+            return JSON.parse(jsonString);
+        }
+        throw new Error("No JSON found");
+    } catch (e) {
+        throw new AIError("parse", "Failed to parse AI response structure");
+    }
+}
+
+/**
+ * Pulls every complete object out of the `nodes` array of a JSON document that
+ * is still being written, so a streamed response can be rendered before it ends.
+ */
+export const parsePartialNodes = (text: string): any[] => {
+    const nodesKey = text.indexOf('"nodes"');
+    const arrayStart = nodesKey === -1 ? -1 : text.indexOf('[', nodesKey);
+    if (arrayStart === -1) return [];
+
+    const nodes: any[] = [];
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    let objectStart = -1;
+
+    for (let i = arrayStart + 1; i < text.length; i++) {
+        const ch = text[i];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (ch === '\\') escaped = true;
+            else if (ch === '"') inString = false;
+            continue;
+        }
+
+        if (ch === '"') {
+            inString = true;
+        } else if (ch === '{') {
+            if (depth === 0) objectStart = i;
+            depth++;
+        } else if (ch === '}') {
+            depth--;
+            if (depth === 0 && objectStart !== -1) {
+                try {
+                    nodes.push(JSON.parse(text.substring(objectStart, i + 1)));
+                } catch (e) {
+                    // Skip objects the model wrote malformed
+                }
+                objectStart = -1;
+            }
+        } else if (ch === ']' && depth === 0) {
+            break;
+        }
+    }
+    return nodes;
+};
+
+export const buildExpandPrompt = (
+  path: string[],
+  node: { id: string; label: string; description?: string },
+  existingChildren: string[]
+): string => `
+Expand one branch of an existing mind map.
+
+Branch path (root first): ${path.join(" > ")}
+Node to expand: "${node.label}"${node.description ? `\nNode description: ${node.description}` : ""}
+${existingChildren.length > 0 ? `It already has these children, do not repeat them: ${existingChildren.join(", ")}` : "It has no children yet."}
+
+Return only the NEW nodes as a flat list. Direct children of the expanded node must use "parentId": "${node.id}".
+You may add a second level of detail under the new children. Do not include the expanded node itself.
+`;
+
+export const buildSuggestLinksPrompt = (
+  nodes: { id: string; path: string }[],
+  existingLinks: { sourceId: string; targetId: string }[]
+): string => `
+Suggest cross-links for an existing mind map. Each node is listed as "id: path from the root".
+
+${nodes.map(n => `${n.id}: ${n.path}`).join("\n")}
+
+${existingLinks.length > 0 ? `These cross-links already exist, do not repeat them:\n${existingLinks.map(l => `${l.sourceId} -> ${l.targetId}`).join("\n")}` : "There are no cross-links yet."}
+
+Propose up to 10 links between nodes in DIFFERENT branches that share a meaningful relationship
+(never a node and its own ancestor). Use the exact ids above and give each link a type and a short label.
+`;
@@ -0,0 +1,91 @@
+
+import { LayoutOptions, StoredMap } from "../types";
+import { parseMindMapData } from "../utils/schema";
+import { DEFAULT_LAYOUT_SPACING } from "../utils/layout";
+
+const DB_NAME = "mindgenius";
+const STORE = "maps";
+const LAST_MAP_KEY = "mindgenius.last-map";
+const LAYOUT_KEY = "mindgenius.layout";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again, e.g. after the user allowed storage
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// Runs one request in its own transaction and resolves once that transaction commits
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = action(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Every saved map, most recently edited first. Maps saved by older builds are
+ * migrated to the current format; ones that fail validation are left out.
+ */
+export const listMaps = async (): Promise<StoredMap[]> => {
+  const maps = await run("readonly", store => store.getAll() as IDBRequest<StoredMap[]>);
+  return maps
+    .flatMap(map => {
+      try {
+        return [{ ...map, data: parseMindMapData(map.data) }];
+      } catch (e) {
+        console.error(`Skipping stored map "${map.title}"`, e);
+        return [];
+      }
+    })
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveMap = async (map: StoredMap): Promise<void> => {
+  await run("readwrite", store => store.put(map));
+};
+
+export const deleteMap = async (id: string): Promise<void> => {
+  await run("readwrite", store => store.delete(id));
+};
+
+export const getLastMapId = (): string | null => localStorage.getItem(LAST_MAP_KEY);
+
+export const setLastMapId = (id: string) => {
+  localStorage.setItem(LAST_MAP_KEY, id);
+};
+
+export const loadLayoutOptions = (): LayoutOptions => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(LAYOUT_KEY) || "null");
+    if (stored && stored.kind in DEFAULT_LAYOUT_SPACING) {
+      return {
+        kind: stored.kind,
+        spacing: { ...DEFAULT_LAYOUT_SPACING, ...stored.spacing },
+        keepPinned: stored.keepPinned !== false,
+      };
+    }
+  } catch (e) {
+    // Corrupt options fall back to the defaults
+  }
+  return { kind: "horizontal", spacing: DEFAULT_LAYOUT_SPACING, keepPinned: true };
+};
+
+export const saveLayoutOptions = (options: LayoutOptions) => {
+  localStorage.setItem(LAYOUT_KEY, JSON.stringify(options));
+};
@@ -1,6 +1,22 @@
 
 export type LayoutDirection = 'horizontal' | 'vertical';
 
+// Auto layouts on offer: the two tidy-tree directions plus map-style arrangements
+export type LayoutKind = LayoutDirection | 'balanced' | 'radial' | 'org-chart' | 'indented';
+
+// Distances in canvas pixels; what each one means depends on the layout
+export interface LayoutSpacing {
+  sibling: number;
+  level: number;
+}
+
+export interface LayoutOptions {
+  kind: LayoutKind;
+  spacing: Record<LayoutKind, LayoutSpacing>;
+  // Incremental mode: auto layout arranges the other nodes around pinned ones
+  keepPinned: boolean;
+}
+
 export interface NodeStyle {
   backgroundColor?: string;
   textColor?: string;
@@ -18,11 +34,20 @@ export interface MindMapNode {
   description?: string;
   children?: MindMapNode[]; // For recursive structures if needed, though we primarily use flat lists
   style?: NodeStyle;
+  // Descendants are hidden on the canvas and skipped by auto layout
+  collapsed?: boolean;
+  // Placed by hand; incremental auto layout leaves it where it is
+  pinned?: boolean;
 }
 
+// Relationship a cross-link expresses; untyped links are plain associations
+export type LinkType = 'related' | 'supports' | 'contradicts' | 'causes' | 'example';
+
 export interface SecondaryLink {
     sourceId: string;
     targetId: string;
+    type?: LinkType;
+    label?: string;
 }
 
 export interface Viewport {
@@ -37,8 +62,70 @@ export enum AppStatus {
   ERROR = 'ERROR',
 }
 
+// A document the AI reads from: pasted text or a parsed uploaded file
+export interface SourceDocument {
+  name: string;
+  text: string;
+}
+
+// State of one chunk in a chunked (map-reduce) generation
+export interface ChunkProgress {
+  source: string;
+  chunk: number;
+  status: 'pending' | 'running' | 'done' | 'failed';
+}
+
+export type GenerationPreset = 'general' | 'study-notes' | 'project-plan' | 'meeting-summary' | 'argument-map';
+
+// Shape of the map the AI is asked for; limits are also enforced on the result
+export interface GenerationOptions {
+  preset: GenerationPreset;
+  maxDepth: number;     // levels below the root
+  maxChildren: number;  // children per node
+  language: string;     // empty = same language as the source
+  labelLength: 'short' | 'medium' | 'long';
+}
+
+// How a generated map is combined with the one already on the canvas
+export type GenerationMode = 'replace' | 'append' | 'merge';
+
 export interface MindMapData {
   version: string;
   nodes: MindMapNode[];
   secondaryLinks?: SecondaryLink[];
 }
+
+export type AIProviderId = 'gemini' | 'openai' | 'local';
+
+export interface AIProviderSettings {
+  provider: AIProviderId;
+  model?: string;
+  baseUrl?: string;
+  apiKey?: string;
+  // Give up on a request after this long without a response (or, when streaming, without new text)
+  timeoutSeconds?: number;
+}
+
+// A map saved in the browser's library
+export interface StoredMap {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  data: MindMapData;
+}
+
+export type CollabStatus = 'connecting' | 'waiting' | 'connected' | 'offline';
+
+// Who you are to the other people in a session
+export interface CollabUser {
+  name: string;
+  color: string;
+}
+
+// Another participant in a session, as last heard from
+export interface Collaborator extends CollabUser {
+  clientId: number;
+  cursor?: { x: number, y: number } | null;  // world coordinates, null when off the canvas
+  selectedNodeId?: string | null;
+}
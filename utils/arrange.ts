@@ -0,0 +1,69 @@
+
+import { MindMapNode } from '../types';
+import { NodeBox, NodeSize } from './nodeBox';
+import { boxOf } from './placement';
+
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+const HORIZONTAL: AlignMode[] = ['left', 'center', 'right'];
+
+/**
+ * Lines the `ids` nodes up on one edge or centre line of their combined
+ * bounds, measured on the drawn boxes (`sizes` as measured on the canvas
+ * where given) so labels of different lengths still line up. Only the nodes
+ * themselves move, not their subtrees.
+ */
+export const alignNodes = (nodes: MindMapNode[], ids: string[], mode: AlignMode, sizes?: Map<string, NodeSize>): MindMapNode[] => {
+  const boxes = new Map(nodes.filter(n => ids.includes(n.id)).map(n => [n.id, boxOf(n, sizes)]));
+  if (boxes.size < 2) return nodes;
+
+  const horizontal = HORIZONTAL.includes(mode);
+  // Per box: where it starts and how long it is on the axis being aligned
+  const span = (box: NodeBox) => horizontal ? { start: box.x, length: box.width } : { start: box.y, length: box.height };
+  const spans = Array.from(boxes.values(), span);
+  const min = Math.min(...spans.map(s => s.start));
+  const max = Math.max(...spans.map(s => s.start + s.length));
+
+  return nodes.map(n => {
+    const box = boxes.get(n.id);
+    if (!box) return n;
+    const { start, length } = span(box);
+    const target = mode === 'left' || mode === 'top' ? min
+      : mode === 'right' || mode === 'bottom' ? max - length
+      : (min + max) / 2 - length / 2;
+    return horizontal ? { ...n, x: n.x + target - start } : { ...n, y: n.y + target - start };
+  });
+};
+
+/**
+ * Spaces the `ids` nodes so the gaps between neighbouring boxes are equal
+ * along `axis`. The outermost two stay put, so at least three are needed.
+ */
+export const distributeNodes = (nodes: MindMapNode[], ids: string[], axis: DistributeAxis, sizes?: Map<string, NodeSize>): MindMapNode[] => {
+  const horizontal = axis === 'horizontal';
+  const items = nodes.filter(n => ids.includes(n.id)).map(n => {
+    const box = boxOf(n, sizes);
+    return horizontal ? { id: n.id, start: box.x, length: box.width } : { id: n.id, start: box.y, length: box.height };
+  });
+  if (items.length < 3) return nodes;
+
+  items.sort((a, b) => (a.start + a.length / 2) - (b.start + b.length / 2));
+  const first = items[0];
+  const last = items[items.length - 1];
+  const total = items.reduce((sum, item) => sum + item.length, 0);
+  const gap = (last.start + last.length - first.start - total) / (items.length - 1);
+
+  const shifts = new Map<string, number>();
+  let cursor = first.start;
+  items.forEach(item => {
+    shifts.set(item.id, cursor - item.start);
+    cursor += item.length + gap;
+  });
+
+  return nodes.map(n => {
+    const shift = shifts.get(n.id);
+    if (!shift) return n;
+    return horizontal ? { ...n, x: n.x + shift } : { ...n, y: n.y + shift };
+  });
+};
@@ -0,0 +1,38 @@
+
+// Roughly 3-4k tokens per chunk, small enough for any provider's context window
+export const DEFAULT_CHUNK_SIZE = 12000;
+
+/**
+ * Splits text into chunks of at most `maxChars`, breaking between paragraphs
+ * where possible and between sentences when a single paragraph is too long.
+ */
+export const chunkText = (text: string, maxChars: number = DEFAULT_CHUNK_SIZE): string[] => {
+  const pieces = text
+    .split(/\n\s*\n/)
+    .map(p => p.trim())
+    .filter(Boolean)
+    .flatMap(paragraph => {
+      if (paragraph.length <= maxChars) return [paragraph];
+      const sentences = paragraph.match(/[^.!?]+[.!?]+["')\]]*\s*|[^.!?]+$/g) || [paragraph];
+      // A "sentence" can still be too long (e.g. a table dump); hard-split those
+      return sentences.flatMap(s => {
+        const parts: string[] = [];
+        for (let i = 0; i < s.length; i += maxChars) parts.push(s.slice(i, i + maxChars));
+        return parts;
+      });
+    });
+
+  const chunks: string[] = [];
+  let current = '';
+  pieces.forEach(piece => {
+    const separator = current ? '\n\n' : '';
+    if (current && current.length + separator.length + piece.length > maxChars) {
+      chunks.push(current);
+      current = piece;
+    } else {
+      current += separator + piece;
+    }
+  });
+  if (current) chunks.push(current);
+  return chunks;
+};
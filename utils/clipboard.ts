@@ -0,0 +1,119 @@
+
+import { LayoutKind, LayoutSpacing, MindMapData, MindMapNode, SecondaryLink } from '../types';
+import { CURRENT_VERSION, MindMapFormatError, parseMindMapData } from './schema';
+import { withFreshIds } from './normalize';
+import { placeNewNodes } from './merge';
+import { getDescendantIds, topmostOf } from './tree';
+
+// Browsers keep custom types on the system clipboard between their own tabs
+export const CLIPBOARD_TYPE = 'application/x-mindgenius+json';
+
+// Markers an outline line may start with: bullets, numbers and Markdown headings
+const LINE_MARKER = /^(?:[-*+•]|\d+[.)]|#{1,6})\s+/;
+
+/**
+ * The selected nodes with everything below them, as a map of its own: each
+ * topmost selected node becomes a root, and cross-links with both ends inside
+ * come along. Styles and descriptions are kept as they are.
+ */
+export const copyBranches = (nodes: MindMapNode[], links: SecondaryLink[], ids: string[]): MindMapData | null => {
+  const tops = topmostOf(ids, nodes).filter(id => nodes.some(n => n.id === id));
+  if (tops.length === 0) return null;
+
+  const included = new Set(tops.flatMap(id => [id, ...getDescendantIds(id, nodes)]));
+  return {
+    version: CURRENT_VERSION,
+    nodes: nodes.filter(n => included.has(n.id)).map(n => tops.includes(n.id) ? { ...n, parentId: null } : n),
+    secondaryLinks: links.filter(l => included.has(l.sourceId) && included.has(l.targetId)),
+  };
+};
+
+/** Writes the branches as an indented bullet list, for pasting into other apps. */
+export const branchesToOutline = (data: MindMapData): string => {
+  const lines: string[] = [];
+  const write = (node: MindMapNode, depth: number) => {
+    lines.push(`${'  '.repeat(depth)}- ${node.label.replace(/\s*\n\s*/g, ' ').trim() || 'Untitled'}`);
+    data.nodes.filter(n => n.parentId === node.id).forEach(child => write(child, depth + 1));
+  };
+  data.nodes.filter(n => n.parentId === null).forEach(root => write(root, 0));
+  return lines.join('\n') + '\n';
+};
+
+/**
+ * Reads plain text as an outline: one node per non-blank line, nested by
+ * indentation, with bullet, number and heading markers stripped. Positions
+ * are left at zero for the paste to lay out.
+ */
+export const outlineToBranches = (text: string): MindMapData | null => {
+  const nodes: MindMapNode[] = [];
+  const stack: { indent: number, id: string }[] = [];
+
+  text.replace(/\r\n?/g, '\n').split('\n').forEach(line => {
+    const label = line.trim().replace(LINE_MARKER, '').trim();
+    if (!label) return;
+    const indent = (line.match(/^\s*/)![0]).replace(/\t/g, '    ').length;
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) stack.pop();
+    const node: MindMapNode = { id: crypto.randomUUID(), parentId: stack[stack.length - 1]?.id ?? null, label, x: 0, y: 0 };
+    nodes.push(node);
+    stack.push({ indent, id: node.id });
+  });
+
+  return nodes.length > 0 ? { version: CURRENT_VERSION, nodes, secondaryLinks: [] } : null;
+};
+
+export const writeClipboard = (clipboard: DataTransfer, data: MindMapData) => {
+  clipboard.setData(CLIPBOARD_TYPE, JSON.stringify(data));
+  clipboard.setData('text/plain', branchesToOutline(data));
+};
+
+/**
+ * Branches from a paste: copied nodes from any tab, a map file's JSON copied
+ * as text, or any other text read as an outline. Null when there is nothing
+ * to paste; a MindMapFormatError when copied map data does not validate.
+ */
+export const readClipboard = (clipboard: DataTransfer): MindMapData | null => {
+  const copied = clipboard.getData(CLIPBOARD_TYPE);
+  if (copied) return parseMindMapData(JSON.parse(copied));
+
+  const text = clipboard.getData('text/plain');
+  if (/^\s*\{/.test(text)) {
+    try {
+      return parseMindMapData(JSON.parse(text));
+    } catch (e) {
+      // Text that only looks like JSON is pasted as an outline; a map that fails validation is reported
+      if (e instanceof MindMapFormatError) throw e;
+    }
+  }
+  return outlineToBranches(text);
+};
+
+/**
+ * Adds copied branches under `parentId` with fresh ids, laid out in the map's
+ * layout after the parent's existing children. Returns the new map and the
+ * pasted top nodes.
+ */
+export const pasteBranches = (
+  nodes: MindMapNode[],
+  links: SecondaryLink[],
+  data: MindMapData,
+  parentId: string,
+  kind?: LayoutKind,
+  spacing?: LayoutSpacing
+): { nodes: MindMapNode[], links: SecondaryLink[], pastedIds: string[] } => {
+  const idMap = new Map<string, string>();
+  const added = withFreshIds(data.nodes, [], id => {
+    const fresh = crypto.randomUUID();
+    idMap.set(id, fresh);
+    return fresh;
+  }).map(n => n.parentId === null ? { ...n, parentId } : n);
+
+  const pastedLinks = data.secondaryLinks
+    .filter(l => idMap.has(l.sourceId) && idMap.has(l.targetId))
+    .map(l => ({ ...l, sourceId: idMap.get(l.sourceId)!, targetId: idMap.get(l.targetId)! }));
+
+  return {
+    nodes: placeNewNodes(nodes, added, kind, spacing),
+    links: [...links, ...pastedLinks],
+    pastedIds: added.filter(n => n.parentId === parentId).map(n => n.id),
+  };
+};
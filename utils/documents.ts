@@ -0,0 +1,64 @@
+
+import { SourceDocument } from '../types';
+
+export const SUPPORTED_EXTENSIONS = ['.md', '.markdown', '.txt', '.html', '.htm', '.pdf', '.docx'];
+
+const extensionOf = (name: string) => {
+  const dot = name.lastIndexOf('.');
+  return dot === -1 ? '' : name.slice(dot).toLowerCase();
+};
+
+const readHtml = async (file: File): Promise<string> => {
+  const doc = new DOMParser().parseFromString(await file.text(), 'text/html');
+  doc.querySelectorAll('script, style, noscript, nav, footer').forEach(el => el.remove());
+  // Keep block boundaries so the text still splits into paragraphs
+  doc.querySelectorAll('p, div, li, h1, h2, h3, h4, h5, h6, br, tr').forEach(el => el.append('\n'));
+  return doc.body?.textContent || '';
+};
+
+const readPdf = async (file: File): Promise<string> => {
+  // Loaded on demand: pdf.js is large and most maps never see a PDF
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const pages: string[] = [];
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const content = await (await pdf.getPage(i)).getTextContent();
+    pages.push(content.items.map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : '')).join(''));
+  }
+  return pages.join('\n\n');
+};
+
+const readDocx = async (file: File): Promise<string> => {
+  const mammoth = await import('mammoth');
+  const result = await mammoth.extractRawText({ arrayBuffer: await file.arrayBuffer() });
+  return result.value;
+};
+
+/**
+ * Extracts the plain text of an uploaded file in the browser.
+ * Throws with the file name in the message if the format is unsupported or unreadable.
+ */
+export const parseDocument = async (file: File): Promise<SourceDocument> => {
+  const extension = extensionOf(file.name);
+  if (!SUPPORTED_EXTENSIONS.includes(extension)) {
+    throw new Error(`Unsupported file type: ${file.name}`);
+  }
+
+  let text: string;
+  try {
+    if (extension === '.pdf') text = await readPdf(file);
+    else if (extension === '.docx') text = await readDocx(file);
+    else if (extension === '.html' || extension === '.htm') text = await readHtml(file);
+    else text = await file.text();
+  } catch (e) {
+    console.error(e);
+    throw new Error(`Could not read ${file.name}`);
+  }
+
+  // Collapse the whitespace noise PDF and HTML extraction leave behind
+  text = text.replace(/[ \t]+/g, ' ').replace(/\n\s*\n\s*/g, '\n\n').trim();
+  if (!text) throw new Error(`${file.name} contains no readable text`);
+  return { name: file.name, text };
+};
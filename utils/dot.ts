@@ -0,0 +1,71 @@
+
+import { MindMapNode, NodeStyle, SecondaryLink } from '../types';
+import { LINK_TYPE_COLORS, getLinkLabel } from './links';
+
+// Same defaults as the canvas: slate-900 nodes with slate-700 borders and links
+const NODE_BACKGROUND = '#0f172a';
+const NODE_BORDER = '#334155';
+const NODE_TEXT = '#e2e8f0';
+const TREE_LINK_COLOR = '#334155';
+
+// Graphviz sizes fonts in points
+const FONT_POINTS: Record<NonNullable<NodeStyle['fontSize']>, number> = { sm: 10, md: 12, lg: 16 };
+
+const quote = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, '\\n')}"`;
+
+const attributes = (values: Record<string, string | number | undefined>) => {
+  const set = Object.entries(values).filter(([, value]) => value !== undefined && value !== '');
+  return set.length > 0 ? ` [${set.map(([key, value]) => `${key}=${typeof value === 'number' ? value : quote(value!)}`).join(', ')}]` : '';
+};
+
+const nodeAttributes = (node: MindMapNode) => {
+  const style = node.style || {};
+  return attributes({
+    label: node.label,
+    tooltip: node.description?.trim(),
+    // Graphviz has no stadium shape; an ellipse is the nearest
+    shape: style.shape === 'pill' ? 'ellipse' : undefined,
+    style: style.shape === 'rect' ? 'filled' : undefined,
+    fillcolor: style.backgroundColor,
+    color: style.borderColor,
+    fontcolor: style.textColor,
+    fontsize: style.fontSize && style.fontSize !== 'md' ? FONT_POINTS[style.fontSize] : undefined,
+  });
+};
+
+/**
+ * Writes the map as a Graphviz digraph laid out left to right. Node styles
+ * become fill, border and font attributes over the theme's defaults; cross-links
+ * are dashed edges in their type's color that do not affect ranking.
+ */
+export const mindMapToDot = (nodes: MindMapNode[], links: SecondaryLink[] = []): string => {
+  const ids = new Set(nodes.map(n => n.id));
+  const lines = [
+    'digraph MindMap {',
+    '  rankdir=LR;',
+    `  node${attributes({ shape: 'box', style: 'rounded,filled', fillcolor: NODE_BACKGROUND, color: NODE_BORDER, fontcolor: NODE_TEXT, fontname: 'Inter', fontsize: FONT_POINTS.md })};`,
+    `  edge${attributes({ color: TREE_LINK_COLOR, arrowhead: 'none' })};`,
+    '',
+    ...nodes.map(node => `  ${quote(node.id)}${nodeAttributes(node)};`),
+    '',
+    ...nodes
+      .filter(node => node.parentId && ids.has(node.parentId))
+      .map(node => `  ${quote(node.parentId!)} -> ${quote(node.id)};`),
+  ];
+
+  const crossLinks = links.filter(l => ids.has(l.sourceId) && ids.has(l.targetId));
+  if (crossLinks.length > 0) {
+    const color = (link: SecondaryLink) => LINK_TYPE_COLORS[link.type || 'related'];
+    lines.push('', ...crossLinks.map(link => `  ${quote(link.sourceId)} -> ${quote(link.targetId)}${attributes({
+      style: 'dashed',
+      color: color(link),
+      fontcolor: color(link),
+      label: getLinkLabel(link),
+      arrowhead: 'normal',
+      constraint: 'false',
+    })};`));
+  }
+
+  lines.push('}', '');
+  return lines.join('\n');
+};
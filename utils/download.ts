@@ -0,0 +1,17 @@
+
+// Saves a blob through a temporary link, the only way to trigger a download without a server
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadText = (text: string, filename: string, type: string) => {
+  downloadBlob(new Blob([text], { type }), filename);
+};
+
+// "mindmap-2024-05-01.md"
+export const datedFilename = (extension: string) => `mindmap-${new Date().toISOString().slice(0, 10)}.${extension}`;
@@ -0,0 +1,189 @@
+
+import { MindMapNode, SecondaryLink } from '../types';
+import { LINK_TYPE_COLORS, getLinkLabel, getLinkPath } from './links';
+import { NODE_FONTS, NODE_FONT_FAMILY, cornerRadius, getNodeBox } from './nodeBox';
+import { escapeXml } from './xml';
+import { getHiddenIds } from './tree';
+
+export type ImageFormat = 'svg' | 'png' | 'pdf';
+
+export interface ImageExportOptions {
+  background: 'theme' | 'transparent';
+  padding: number;             // space around the map's bounds, in canvas pixels
+  scale: number;               // PNG and PDF resolution; 2 = twice the on-screen size
+  pdfLayout: 'fit' | 'tiled';  // one page scaled to fit, or actual size across several pages
+}
+
+export const DEFAULT_IMAGE_EXPORT_OPTIONS: ImageExportOptions = {
+  background: 'theme',
+  padding: 40,
+  scale: 2,
+  pdfLayout: 'fit',
+};
+
+// Same colors as the canvas: slate-950 background, slate-700 tree links and borders, slate-900 nodes
+const THEME_BACKGROUND = '#020617';
+const TREE_LINK_COLOR = '#334155';
+const NODE_BACKGROUND = '#0f172a';
+const NODE_BORDER = '#334155';
+const NODE_TEXT = '#e2e8f0';
+
+// Browsers refuse to allocate canvases much beyond this many pixels
+const MAX_CANVAS_PIXELS = 16384 * 16384 / 4;
+
+// A4 in points, and the margin kept free on each PDF page
+const PAGE = { long: 842, short: 595, margin: 24 };
+// One canvas pixel is 1/96 inch, one PDF point 1/72 inch
+const POINTS_PER_PIXEL = 0.75;
+
+export interface RenderedSvg {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Draws the whole map, not just the part in view, as a standalone SVG: tree
+ * links and cross-links with the canvas's curves, then every node with its
+ * shape, colors and label. Like the canvas, it leaves out nodes inside
+ * collapsed branches and the links touching them. The image is cropped to
+ * the map's bounds plus padding.
+ */
+export const renderMindMapSvg = (
+  allNodes: MindMapNode[],
+  allLinks: SecondaryLink[],
+  options: ImageExportOptions = DEFAULT_IMAGE_EXPORT_OPTIONS
+): RenderedSvg => {
+  const hidden = getHiddenIds(allNodes);
+  const nodes = allNodes.filter(n => !hidden.has(n.id));
+  const links = allLinks.filter(l => !hidden.has(l.sourceId) && !hidden.has(l.targetId));
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const boxes = new Map(nodes.map(n => [n.id, getNodeBox(n)]));
+
+  // An empty canvas still exports, as just the padding
+  const all = boxes.size > 0 ? [...boxes.values()] : [{ x: 0, y: 0, width: 0, height: 0 }];
+  const minX = Math.min(...all.map(b => b.x)) - options.padding;
+  const minY = Math.min(...all.map(b => b.y)) - options.padding;
+  const width = Math.ceil(Math.max(...all.map(b => b.x + b.width)) + options.padding - minX);
+  const height = Math.ceil(Math.max(...all.map(b => b.y + b.height)) + options.padding - minY);
+
+  const parts: string[] = [];
+  if (options.background === 'theme') {
+    parts.push(`<rect x="${minX}" y="${minY}" width="${width}" height="${height}" fill="${THEME_BACKGROUND}"/>`);
+  }
+
+  nodes.forEach(node => {
+    const parent = node.parentId ? byId.get(node.parentId) : undefined;
+    if (parent) parts.push(`<path d="${getLinkPath(parent, node)}" fill="none" stroke="${TREE_LINK_COLOR}" stroke-width="2"/>`);
+  });
+
+  links.forEach(link => {
+    const source = byId.get(link.sourceId);
+    const target = byId.get(link.targetId);
+    if (!source || !target) return;
+    const color = LINK_TYPE_COLORS[link.type || 'related'];
+    parts.push(`<path d="${getLinkPath(source, target)}" fill="none" stroke="${color}" stroke-width="2" stroke-dasharray="5,5"/>`);
+    const label = getLinkLabel(link);
+    if (label) {
+      parts.push(`<text x="${(source.x + target.x) / 2}" y="${(source.y + target.y) / 2 - 6}" fill="${color}" font-size="11" text-anchor="middle">${escapeXml(label)}</text>`);
+    }
+  });
+
+  nodes.forEach(node => {
+    const box = boxes.get(node.id)!;
+    const style = node.style || {};
+    const font = NODE_FONTS[style.fontSize || 'md'];
+    // The canvas draws its 2px border inside the box; an SVG stroke is centered on the edge
+    parts.push(
+      `<rect x="${box.x + 1}" y="${box.y + 1}" width="${box.width - 2}" height="${box.height - 2}" rx="${cornerRadius(style.shape, box.height) - 1}" ` +
+      `fill="${escapeXml(style.backgroundColor || NODE_BACKGROUND)}" stroke="${escapeXml(style.borderColor || NODE_BORDER)}" stroke-width="2"/>`,
+      `<text x="${box.x + box.width / 2}" y="${box.y + box.height / 2}" fill="${escapeXml(style.textColor || NODE_TEXT)}" ` +
+      `font-size="${font.size}" font-weight="${font.weight}" text-anchor="middle" dominant-baseline="central">${escapeXml(box.text)}</text>`
+    );
+  });
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${minX} ${minY} ${width} ${height}" font-family="${NODE_FONT_FAMILY}">`,
+    ...parts,
+    '</svg>',
+  ].join('\n');
+  return { svg, width, height };
+};
+
+/** Rasterizes a rendered SVG onto a canvas `scale` times its size. */
+export const svgToCanvas = async ({ svg, width, height }: RenderedSvg, scale: number): Promise<HTMLCanvasElement> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(width * scale);
+  canvas.height = Math.ceil(height * scale);
+  if (canvas.width * canvas.height > MAX_CANVAS_PIXELS) {
+    throw new Error(`The map is too large to export at ${scale}x. Choose a smaller scale.`);
+  }
+
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  try {
+    const image = new Image();
+    await new Promise((resolve, reject) => {
+      image.onload = resolve;
+      image.onerror = () => reject(new Error('Could not render the map image.'));
+      image.src = url;
+    });
+    canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode the PNG.')), 'image/png');
+  });
+
+export const exportPng = async (rendered: RenderedSvg, options: ImageExportOptions): Promise<Blob> =>
+  canvasToBlob(await svgToCanvas(rendered, options.scale));
+
+/**
+ * Lays the map out on A4 pages, in whichever orientation suits its shape.
+ * 'fit' shrinks (or grows) it onto one page; 'tiled' prints it at actual size
+ * and cuts it into as many pages as it needs.
+ */
+export const exportPdf = async (rendered: RenderedSvg, options: ImageExportOptions): Promise<Blob> => {
+  const { jsPDF } = await import('jspdf');
+  const canvas = await svgToCanvas(rendered, options.scale);
+
+  const landscape = rendered.width >= rendered.height;
+  const pageWidth = landscape ? PAGE.long : PAGE.short;
+  const pageHeight = landscape ? PAGE.short : PAGE.long;
+  const areaWidth = pageWidth - 2 * PAGE.margin;
+  const areaHeight = pageHeight - 2 * PAGE.margin;
+  const pdf = new jsPDF({ orientation: landscape ? 'landscape' : 'portrait', unit: 'pt', format: 'a4' });
+
+  if (options.pdfLayout === 'fit') {
+    const fit = Math.min(areaWidth / rendered.width, areaHeight / rendered.height);
+    const w = rendered.width * fit;
+    const h = rendered.height * fit;
+    pdf.addImage(canvas, 'PNG', (pageWidth - w) / 2, (pageHeight - h) / 2, w, h);
+    return pdf.output('blob');
+  }
+
+  // Canvas pixels that make up one page's printable area
+  const pixelsPerPoint = options.scale / POINTS_PER_PIXEL;
+  const tileWidth = Math.floor(areaWidth * pixelsPerPoint);
+  const tileHeight = Math.floor(areaHeight * pixelsPerPoint);
+  const tile = document.createElement('canvas');
+
+  let pages = 0;
+  for (let top = 0; top < canvas.height; top += tileHeight) {
+    for (let left = 0; left < canvas.width; left += tileWidth) {
+      const w = Math.min(tileWidth, canvas.width - left);
+      const h = Math.min(tileHeight, canvas.height - top);
+      tile.width = w;
+      tile.height = h;
+      tile.getContext('2d')!.drawImage(canvas, left, top, w, h, 0, 0, w, h);
+      if (pages++ > 0) pdf.addPage();
+      // The tile canvas is reused, so each page needs its own image alias
+      pdf.addImage(tile, 'PNG', PAGE.margin, PAGE.margin, w / pixelsPerPoint, h / pixelsPerPoint, `tile-${top}-${left}`);
+    }
+  }
+  return pdf.output('blob');
+};
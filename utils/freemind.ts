@@ -0,0 +1,140 @@
+
+import { LinkType, MindMapNode, NodeStyle, SecondaryLink } from '../types';
+import { LINK_TYPES, LINK_TYPE_COLORS } from './links';
+import { childElements, escapeXml, parseXml } from './xml';
+
+// NodeStyle.shape <-> FreeMind/Freeplane STYLE attribute
+const SHAPE_TO_STYLE: Record<NonNullable<NodeStyle['shape']>, string> = {
+  rect: 'rectangle',
+  rounded: 'bubble',
+  pill: 'oval',
+};
+
+const FONT_SIZES: Record<NonNullable<NodeStyle['fontSize']>, number> = { sm: 10, md: 12, lg: 16 };
+
+const fontSizeFrom = (size: number): NodeStyle['fontSize'] => size <= 10 ? 'sm' : size >= 15 ? 'lg' : 'md';
+
+// Cross-link types have no .mm equivalent, so they travel as the arrow color
+const linkTypeFrom = (color: string | null): LinkType | undefined =>
+  LINK_TYPES.find(type => LINK_TYPE_COLORS[type].toLowerCase() === color?.toLowerCase());
+
+const noteHtml = (text: string) =>
+  `<richcontent TYPE="NOTE"><html><head></head><body>${
+    text.split('\n').map(line => `<p>${escapeXml(line)}</p>`).join('')
+  }</body></html></richcontent>`;
+
+/**
+ * Writes the map as a FreeMind/Freeplane .mm file. Descriptions become notes,
+ * NodeStyle colors, shape and font size become node attributes, and
+ * cross-links become arrow links (type as color, label as middle label).
+ */
+export const mindMapToFreeMind = (nodes: MindMapNode[], links: SecondaryLink[] = []): string => {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  // .mm ids must be XML names, which UUIDs starting with a digit are not
+  const xmlId = new Map(nodes.map((n, i) => [n.id, `ID_${i + 1}`]));
+
+  const write = (node: MindMapNode, depth: number, parent?: MindMapNode): string => {
+    const style = node.style || {};
+    const attributes = [
+      `ID="${xmlId.get(node.id)}"`,
+      `TEXT="${escapeXml(node.label)}"`,
+      style.textColor && `COLOR="${escapeXml(style.textColor)}"`,
+      style.backgroundColor && `BACKGROUND_COLOR="${escapeXml(style.backgroundColor)}"`,
+      style.borderColor && `BORDER_COLOR="${escapeXml(style.borderColor)}"`,
+      style.shape && `STYLE="${SHAPE_TO_STYLE[style.shape]}"`,
+      // First-level branches keep the side of the root they are drawn on
+      depth === 1 && parent && `POSITION="${node.x < parent.x ? 'left' : 'right'}"`,
+    ].filter(Boolean).join(' ');
+
+    const indent = '  '.repeat(depth + 1);
+    const content = [
+      style.fontSize && `${indent}  <font SIZE="${FONT_SIZES[style.fontSize]}"/>`,
+      node.description?.trim() && `${indent}  ${noteHtml(node.description.trim())}`,
+      ...links
+        .filter(l => l.sourceId === node.id && xmlId.has(l.targetId))
+        .map(l => `${indent}  <arrowlink DESTINATION="${xmlId.get(l.targetId)}" COLOR="${LINK_TYPE_COLORS[l.type || 'related']}" ENDARROW="Default"${
+          l.label ? ` MIDDLE_LABEL="${escapeXml(l.label)}"` : ''
+        }/>`),
+      ...nodes.filter(n => n.parentId === node.id).map(child => write(child, depth + 1, node)),
+    ].filter(Boolean);
+
+    return content.length > 0
+      ? `${indent}<node ${attributes}>\n${content.join('\n')}\n${indent}</node>`
+      : `${indent}<node ${attributes}/>`;
+  };
+
+  const roots = nodes.filter(n => n.parentId === null || !byId.has(n.parentId));
+  // A .mm file has exactly one root node
+  const body = roots.length === 1
+    ? write(roots[0], 0)
+    : `  <node ID="ID_0" TEXT="Mind Map">\n${roots.map(root => write(root, 1)).join('\n')}\n  </node>`;
+  return `<map version="1.0.1">\n${body}\n</map>\n`;
+};
+
+/** The text of a richcontent element, one line per paragraph. */
+const richText = (element: Element) => {
+  const body = element.getElementsByTagName('body')[0] || element;
+  const blocks = Array.from(body.children);
+  const text = blocks.length > 0
+    ? blocks.map(block => block.textContent?.replace(/\s+/g, ' ').trim() || '').join('\n')
+    : body.textContent || '';
+  return text.replace(/\n{3,}/g, '\n\n').trim();
+};
+
+/**
+ * Reads a FreeMind/Freeplane .mm file. Notes become descriptions, colors,
+ * shape and font size become NodeStyle, and arrow links become cross-links.
+ * Positions are left at zero for the caller to lay out.
+ */
+export const freeMindToMindMap = (xml: string, name: string = 'Mind map'): { nodes: MindMapNode[], links: SecondaryLink[] } => {
+  const doc = parseXml(xml, name);
+  const rootElement = doc.documentElement.tagName === 'map' ? childElements(doc.documentElement, 'node')[0] : undefined;
+  if (!rootElement) throw new Error(`${name} is not a FreeMind map (no <map><node> found)`);
+
+  const nodes: MindMapNode[] = [];
+  const ids = new Map<string, string>();
+  const arrows: { sourceId: string, destination: string, color: string | null, label: string | null }[] = [];
+
+  const read = (element: Element, parentId: string | null) => {
+    const id = crypto.randomUUID();
+    const xmlId = element.getAttribute('ID');
+    if (xmlId) ids.set(xmlId, id);
+
+    const richContent = childElements(element, 'richcontent');
+    const nodeHtml = richContent.find(r => r.getAttribute('TYPE') === 'NODE');
+    const note = richContent.find(r => r.getAttribute('TYPE') === 'NOTE');
+    const label = element.getAttribute('TEXT') ?? (nodeHtml ? richText(nodeHtml) : '');
+
+    const style: NodeStyle = {};
+    const textColor = element.getAttribute('COLOR');
+    const backgroundColor = element.getAttribute('BACKGROUND_COLOR');
+    const borderColor = element.getAttribute('BORDER_COLOR');
+    const shape = (Object.keys(SHAPE_TO_STYLE) as NonNullable<NodeStyle['shape']>[])
+      .find(s => SHAPE_TO_STYLE[s] === element.getAttribute('STYLE'));
+    const fontSize = Number(childElements(element, 'font')[0]?.getAttribute('SIZE'));
+    if (textColor) style.textColor = textColor;
+    if (backgroundColor) style.backgroundColor = backgroundColor;
+    if (borderColor) style.borderColor = borderColor;
+    if (shape) style.shape = shape;
+    if (fontSize > 0) style.fontSize = fontSizeFrom(fontSize);
+
+    const node: MindMapNode = { id, parentId, label: label || 'Untitled', x: 0, y: 0 };
+    if (note) node.description = richText(note) || undefined;
+    if (Object.keys(style).length > 0) node.style = style;
+    nodes.push(node);
+
+    childElements(element, 'arrowlink').forEach(arrow => arrows.push({
+      sourceId: id,
+      destination: arrow.getAttribute('DESTINATION') || '',
+      color: arrow.getAttribute('COLOR'),
+      label: arrow.getAttribute('MIDDLE_LABEL'),
+    }));
+    childElements(element, 'node').forEach(child => read(child, id));
+  };
+  read(rootElement, null);
+
+  const links: SecondaryLink[] = arrows
+    .filter(a => ids.has(a.destination) && ids.get(a.destination) !== a.sourceId)
+    .map(a => ({ sourceId: a.sourceId, targetId: ids.get(a.destination)!, type: linkTypeFrom(a.color), label: a.label || undefined }));
+  return { nodes, links };
+};
@@ -0,0 +1,163 @@
+
+import { MindMapNode, SecondaryLink } from '../types';
+import { linkKey } from './links';
+
+// Edits with the same coalesce key this close together become one entry
+export const COALESCE_WINDOW = 1000;
+// Oldest entries are dropped past either limit
+export const MAX_HISTORY_ENTRIES = 300;
+export const MAX_HISTORY_BYTES = 8 * 1024 * 1024;
+
+export interface MapState {
+  nodes: MindMapNode[];
+  links: SecondaryLink[];
+}
+
+interface Change<T> {
+  key: string;
+  before: T | null;  // null: did not exist
+  after: T | null;   // null: was removed
+}
+
+// Only what an edit touched, in both directions
+export interface Patch {
+  nodes: Change<MindMapNode>[];
+  links: Change<SecondaryLink>[];
+}
+
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  time: number;
+  patch: Patch;
+  size: number;  // estimated bytes held by the patch
+  coalesceKey?: string;
+}
+
+export interface EditHistory {
+  entries: HistoryEntry[];
+  // How many entries are applied; the ones after it can be redone
+  cursor: number;
+  // Set once entries have been dropped, so the panel can say the list is incomplete
+  truncated: boolean;
+}
+
+export const EMPTY_HISTORY: EditHistory = { entries: [], cursor: 0, truncated: false };
+
+let nextEntryId = 1;
+
+const same = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const diff = <T>(before: T[], after: T[], keyOf: (item: T) => string): Change<T>[] => {
+  const old = new Map(before.map(item => [keyOf(item), item]));
+  const changes: Change<T>[] = [];
+  after.forEach(item => {
+    const key = keyOf(item);
+    const previous = old.get(key);
+    old.delete(key);
+    if (previous === undefined) changes.push({ key, before: null, after: item });
+    else if (!same(previous, item)) changes.push({ key, before: previous, after: item });
+  });
+  old.forEach((item, key) => changes.push({ key, before: item, after: null }));
+  return changes;
+};
+
+export const diffMapState = (before: MapState, after: MapState): Patch => ({
+  nodes: diff(before.nodes, after.nodes, n => n.id),
+  links: diff(before.links, after.links, linkKey),
+});
+
+const isEmpty = (patch: Patch) => patch.nodes.length === 0 && patch.links.length === 0;
+
+// Changed items are replaced in place, removed ones dropped and added ones appended
+const applyChanges = <T>(items: T[], changes: Change<T>[], keyOf: (item: T) => string, forward: boolean): T[] => {
+  const target = new Map(changes.map(c => [c.key, forward ? c.after : c.before]));
+  const result = items
+    .filter(item => !target.has(keyOf(item)) || target.get(keyOf(item)) !== null)
+    .map(item => target.get(keyOf(item)) ?? item);
+  const present = new Set(items.map(keyOf));
+  changes.forEach(c => {
+    const value = forward ? c.after : c.before;
+    if (value !== null && !present.has(c.key)) result.push(value);
+  });
+  return result;
+};
+
+export const applyPatch = (state: MapState, patch: Patch, forward: boolean): MapState => ({
+  nodes: applyChanges(state.nodes, patch.nodes, n => n.id, forward),
+  links: applyChanges(state.links, patch.links, linkKey, forward),
+});
+
+// The first `before` and the last `after` of each item; items back where they started drop out
+const combine = <T>(first: Change<T>[], second: Change<T>[]): Change<T>[] => {
+  const combined = new Map(first.map(c => [c.key, c]));
+  second.forEach(c => {
+    const earlier = combined.get(c.key);
+    combined.set(c.key, earlier ? { key: c.key, before: earlier.before, after: c.after } : c);
+  });
+  return Array.from(combined.values()).filter(c => !same(c.before, c.after));
+};
+
+const sizeOf = (patch: Patch) => JSON.stringify(patch).length * 2;
+
+/**
+ * Adds the change from `before` to `after` as an entry, dropping anything that
+ * could have been redone. A change with the same `coalesceKey` as the latest
+ * entry, within COALESCE_WINDOW of it, is folded into that entry instead, so
+ * a drag or a burst of typing is undone in one step.
+ */
+export const recordChange = (
+  history: EditHistory,
+  before: MapState,
+  after: MapState,
+  label: string,
+  coalesceKey?: string,
+  now: number = Date.now()
+): EditHistory => {
+  const patch = diffMapState(before, after);
+  if (isEmpty(patch)) return history;
+
+  const entries = history.entries.slice(0, history.cursor);
+  const last = entries[entries.length - 1];
+  if (coalesceKey && last?.coalesceKey === coalesceKey && now - last.time < COALESCE_WINDOW) {
+    const merged = { nodes: combine(last.patch.nodes, patch.nodes), links: combine(last.patch.links, patch.links) };
+    entries.pop();
+    if (!isEmpty(merged)) entries.push({ ...last, time: now, patch: merged, size: sizeOf(merged) });
+  } else {
+    entries.push({ id: nextEntryId++, label, time: now, patch, size: sizeOf(patch), coalesceKey });
+  }
+
+  let total = entries.reduce((sum, e) => sum + e.size, 0);
+  let dropped = 0;
+  // The newest entry always stays, however large
+  while (entries.length - dropped > 1 && (entries.length - dropped > MAX_HISTORY_ENTRIES || total > MAX_HISTORY_BYTES)) {
+    total -= entries[dropped].size;
+    dropped++;
+  }
+  const kept = entries.slice(dropped);
+  return { entries: kept, cursor: kept.length, truncated: history.truncated || dropped > 0 };
+};
+
+/**
+ * Closes the latest entry to coalescing, so the next change starts an entry
+ * of its own even with the same key. Called when a gesture such as a drag
+ * ends, so two quick drags of one node are two steps.
+ */
+export const endCoalescing = (history: EditHistory): EditHistory => {
+  const last = history.entries[history.cursor - 1];
+  if (!last?.coalesceKey) return history;
+  const entries = [...history.entries];
+  entries[history.cursor - 1] = { ...last, coalesceKey: undefined };
+  return { ...history, entries };
+};
+
+/** Steps the map through the patches between the current position and `target`. */
+export const travel = (history: EditHistory, state: MapState, target: number): { history: EditHistory, state: MapState } => {
+  const goal = Math.max(0, Math.min(target, history.entries.length));
+  let current = state;
+  for (let i = history.cursor; i > goal; i--) current = applyPatch(current, history.entries[i - 1].patch, false);
+  for (let i = history.cursor; i < goal; i++) current = applyPatch(current, history.entries[i].patch, true);
+  return { history: { ...history, cursor: goal }, state: current };
+};
+
+export const historySize = (history: EditHistory) => history.entries.reduce((sum, e) => sum + e.size, 0);
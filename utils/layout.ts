@@ -1,6 +1,12 @@
 
-import { hierarchy, tree } from 'd3-hierarchy';
-import { MindMapNode } from '../types';
+import { hierarchy, tree, cluster } from 'd3-hierarchy';
+import { LayoutKind, LayoutSpacing, MindMapNode } from '../types';
+import { getDepths, getHiddenIds } from './tree';
+import { NODE_OFFSET, NodeBox, NodeSize, getNodeBox } from './nodeBox';
+import { boxOf, breadthAxis, findClearOffset } from './placement';
+
+// Holds the roots when there are several, so they are laid out as one tree
+const VIRTUAL_ROOT = 'virtual-root';
 
 // Convert flat list to hierarchy for D3 calculation
 const buildHierarchy = (flatNodes: MindMapNode[]): any => {
@@ -27,70 +33,374 @@ const buildHierarchy = (flatNodes: MindMapNode[]): any => {
   // If multiple roots, create a fake root to hold them all for layout
   if (roots.length > 1) {
       return {
-          id: 'virtual-root',
+          id: VIRTUAL_ROOT,
           children: roots
       };
   }
   return roots[0];
 };
 
+// Spacing each layout starts from, as gaps between the edges of node boxes.
+// Tidy trees: between neighbouring nodes and between levels. Radial: between
+// neighbours on a ring and between rings. Org chart: between columns and
+// between levels. Indented: between rows, and the indent per level.
+export const DEFAULT_LAYOUT_SPACING: Record<LayoutKind, LayoutSpacing> = {
+  horizontal: { sibling: 24, level: 80 },
+  vertical: { sibling: 32, level: 64 },
+  balanced: { sibling: 24, level: 80 },
+  radial: { sibling: 24, level: 60 },
+  'org-chart': { sibling: 32, level: 64 },
+  indented: { sibling: 12, level: 40 },
+};
+
+type Point = { x: number, y: number };
+
+// Each layout returns the centre of every node's box, the root's at (0, 0)
+type Layout = (root: any, spacing: LayoutSpacing, sizeOf: (d: any) => NodeSize) => Map<string, Point>;
+
+// Where each level starts along the depth axis: every level is as deep as its largest node, then `gap`
+const levelStarts = (nodes: any[], depthOf: (d: any) => number, gap: number, origin: number): number[] => {
+  const deepest: number[] = [];
+  nodes.forEach(d => { deepest[d.depth] = Math.max(deepest[d.depth] || 0, depthOf(d)); });
+  const starts = [origin];
+  for (let i = 1; i < deepest.length; i++) starts[i] = starts[i - 1] + (deepest[i - 1] || 0) + gap;
+  return starts;
+};
+
+// Reingold-Tilford with every node as wide as its box: separation is measured in pixels,
+// so neighbours on a level never overlap and adjacent siblings are exactly `sibling` apart
+const tidyTree = (root: any, spacing: LayoutSpacing, sizeOf: (d: any) => NodeSize, horizontal: boolean) => {
+  const breadth = (d: any) => horizontal ? sizeOf(d).height : sizeOf(d).width;
+  const depth = (d: any) => horizontal ? sizeOf(d).width : sizeOf(d).height;
+  // D3 standard: x = breadth, y = depth
+  tree<any>().nodeSize([1, 1]).separation((a: any, b: any) =>
+    (breadth(a) + breadth(b)) / 2 + (a.parent === b.parent ? spacing.sibling : 2 * spacing.sibling)
+  )(root);
+
+  // Levels line up on their leading edge, so labels of a level start together
+  const starts = levelStarts(root.descendants(), depth, spacing.level, -depth(root) / 2);
+  const positions = new Map<string, Point>();
+  root.each((d: any) => {
+    const along = starts[d.depth] + depth(d) / 2;
+    positions.set(d.data.id, horizontal ? { x: along, y: d.x } : { x: d.x, y: along });
+  });
+  return positions;
+};
+
+// First-level branches go right until they hold half the leaves, the rest go left, mirrored
+const balanced: Layout = (root, spacing, sizeOf) => {
+  const branches: any[] = root.children || [];
+  const total = root.leaves().length;
+  const right: any[] = [];
+  const left: any[] = [];
+  let placed = 0;
+  branches.forEach(branch => {
+    (placed < total / 2 ? right : left).push(branch.data);
+    placed += branch.leaves().length;
+  });
+
+  const positions = new Map<string, Point>([[root.data.id, { x: 0, y: 0 }]]);
+  // Read clockwise: down the right side, then up the left
+  [{ side: right, sign: 1 }, { side: left.reverse(), sign: -1 }].forEach(({ side, sign }) => {
+    if (side.length === 0) return;
+    tidyTree(hierarchy({ ...root.data, children: side }), spacing, sizeOf, true).forEach((point, id) => {
+      if (id !== root.data.id) positions.set(id, { x: sign * point.x, y: point.y });
+    });
+  });
+  return positions;
+};
+
+// Angles from d3.cluster, one ring per level. Each node is treated as the circle around
+// its box: rings are at least `level` apart, and each ring grows until every pair on it is
+// at least `sibling` apart along the chord between them.
+const radial: Layout = (root, spacing, sizeOf) => {
+  cluster<any>().size([2 * Math.PI, 1]).separation((a: any, b: any) => a.parent === b.parent ? 1 : 2)(root);
+  const reach = (d: any) => Math.hypot(sizeOf(d).width, sizeOf(d).height) / 2;
+
+  const rings: any[][] = [];
+  root.each((d: any) => { (rings[d.depth] = rings[d.depth] || []).push(d); });
+  const widest = rings.map(ring => Math.max(...ring.map(reach)));
+
+  const radii = [0];
+  for (let depth = 1; depth < rings.length; depth++) {
+    let radius = radii[depth - 1] + widest[depth - 1] + widest[depth] + spacing.level;
+    const ring = rings[depth];
+    for (let i = 0; i < ring.length; i++) {
+      for (let j = i + 1; j < ring.length; j++) {
+        const angle = Math.abs(ring[i].x - ring[j].x);
+        const chord = 2 * Math.sin(angle / 2);
+        if (chord > 0) radius = Math.max(radius, (reach(ring[i]) + reach(ring[j]) + spacing.sibling) / chord);
+      }
+    }
+    radii[depth] = radius;
+  }
+
+  const positions = new Map<string, Point>();
+  root.each((d: any) => {
+    const radius = radii[d.depth];
+    // Clockwise from twelve o'clock
+    positions.set(d.data.id, { x: radius * Math.sin(d.x), y: -radius * Math.cos(d.x) });
+  });
+  return positions;
+};
+
+// Top-down, with the leaf children of a non-root node stacked in a column under it to save width.
+// Every subtree keeps to its own band of columns, so bands never overlap at any depth.
+const orgChart: Layout = (root, spacing, sizeOf) => {
+  const indent = spacing.sibling;
+  const stackGap = spacing.sibling / 2;
+  const positions = new Map<string, Point>();
+  const isStack = (d: any) => d.depth > 0 && d.children && d.children.every((c: any) => !c.children);
+  const tops = levelStarts(root.descendants(), d => sizeOf(d).height, spacing.level, -sizeOf(root).height / 2);
+
+  // Places the subtree in the band starting at `left`; returns the band's width
+  const place = (d: any, left: number): number => {
+    const { width, height } = sizeOf(d);
+    const top = tops[d.depth];
+    if (!d.children) {
+      positions.set(d.data.id, { x: left + width / 2, y: top + height / 2 });
+      return width;
+    }
+    if (isStack(d)) {
+      positions.set(d.data.id, { x: left + width / 2, y: top + height / 2 });
+      let y = top + height;
+      let bandWidth = width;
+      d.children.forEach((c: any) => {
+        const size = sizeOf(c);
+        y += stackGap;
+        positions.set(c.data.id, { x: left + indent + size.width / 2, y: y + size.height / 2 });
+        y += size.height;
+        bandWidth = Math.max(bandWidth, indent + size.width);
+      });
+      return bandWidth;
+    }
+    const span = d.children.reduce((sum: number, c: any) => sum + sizeOf(c).width, 0) + (d.children.length - 1) * spacing.sibling;
+    // A parent wider than its children centres them under itself
+    let offset = Math.max(0, (width - span) / 2);
+    let childrenWidth = 0;
+    d.children.forEach((c: any, i: number) => {
+      childrenWidth += place(c, left + offset + childrenWidth) + (i < d.children.length - 1 ? spacing.sibling : 0);
+    });
+    const bandWidth = Math.max(width, offset + childrenWidth);
+    const first = positions.get(d.children[0].data.id)!;
+    const last = positions.get(d.children[d.children.length - 1].data.id)!;
+    const x = Math.min(Math.max((first.x + last.x) / 2, left + width / 2), left + bandWidth - width / 2);
+    positions.set(d.data.id, { x, y: top + height / 2 });
+    return bandWidth;
+  };
+  place(root, 0);
+
+  const origin = positions.get(root.data.id)!.x;
+  positions.forEach(point => { point.x -= origin; });
+  return positions;
+};
+
+// An outline: one row per node in reading order, indented by depth
+const indented: Layout = (root, spacing, sizeOf) => {
+  const positions = new Map<string, Point>();
+  const skip = root.data.id === VIRTUAL_ROOT ? 1 : 0;
+  const left = skip ? 0 : -sizeOf(root).width / 2;
+  let top: number | null = null;
+  root.eachBefore((d: any) => {
+    if (d.depth < skip) return;
+    const { width, height } = sizeOf(d);
+    top = top === null ? -height / 2 : top + spacing.sibling;
+    positions.set(d.data.id, { x: left + (d.depth - skip) * spacing.level + width / 2, y: top + height / 2 });
+    top += height;
+  });
+  return positions;
+};
+
+const LAYOUTS: Record<LayoutKind, Layout> = {
+  horizontal: (root, spacing, sizeOf) => tidyTree(root, spacing, sizeOf, true),
+  vertical: (root, spacing, sizeOf) => tidyTree(root, spacing, sizeOf, false),
+  balanced,
+  radial,
+  'org-chart': orgChart,
+  indented,
+};
+
 /**
  * Calculates positions for nodes based on a tree structure.
  * Returns a new array of nodes with x/y coordinates assigned.
  * This is used for initial generation or "Auto Layout" requests.
+ * Only visible nodes are laid out; nodes inside a collapsed branch move
+ * along with the collapsed node, keeping their shape for when it opens.
+ * Nodes are spaced by their boxes: `sizes` as measured on the canvas where
+ * given, otherwise as computed by getNodeBox.
  */
 export const applyAutoLayout = (
   nodes: MindMapNode[], 
-  direction: 'horizontal' | 'vertical' = 'horizontal'
+  kind: LayoutKind = 'horizontal',
+  spacing: LayoutSpacing = DEFAULT_LAYOUT_SPACING[kind],
+  sizes?: Map<string, NodeSize>
 ): MindMapNode[] => {
   if (nodes.length === 0) return [];
 
-  const rootData = buildHierarchy(nodes);
+  const hidden = getHiddenIds(nodes);
+  const rootData = buildHierarchy(nodes.filter(n => !hidden.has(n.id)));
   if (!rootData) return nodes;
 
   const root = hierarchy(rootData);
-  
-  // D3 Tree Layout Configuration
-  // Horizontal: depth controls x, breadth controls y
-  const nodeHeight = 80;
-  const nodeWidth = 250; 
-  
-  const treeLayout = tree<any>();
-
-  if (direction === 'horizontal') {
-      treeLayout.nodeSize([nodeHeight, nodeWidth]); 
-  } else {
-      treeLayout.nodeSize([nodeWidth, nodeHeight + 40]);
-  }
-  
-  treeLayout(root);
+  const nodeMap = new Map(nodes.map(n => [n.id, n]));
+
+  const measured = new Map(sizes);
+  const sizeById = (id: string): NodeSize => {
+    const node = nodeMap.get(id);
+    if (!node) return { width: 0, height: 0 };
+    if (!measured.has(id)) {
+      const { width, height } = getNodeBox(node);
+      measured.set(id, { width, height });
+    }
+    return measured.get(id)!;
+  };
+  const centres = LAYOUTS[kind](root, spacing, (d: any) => sizeById(d.data.id));
+
+  // From box centres to node anchors, moved so a single root keeps the origin
+  const positions = new Map<string, Point>();
+  centres.forEach((centre, id) => {
+    const { width, height } = sizeById(id);
+    positions.set(id, { x: centre.x - width / 2 + NODE_OFFSET.x, y: centre.y - height / 2 + NODE_OFFSET.y });
+  });
+  const origin = positions.get(root.data.id) || { x: 0, y: 0 };
 
   const updatedNodes: MindMapNode[] = [];
-  const nodeMap = new Map(nodes.map(n => [n.id, n]));
 
-  root.descendants().forEach((d) => {
+  root.descendants().forEach((d: any) => {
     // If it's our virtual root, skip it
-    if (d.data.id === 'virtual-root') return;
+    if (d.data.id === VIRTUAL_ROOT) return;
 
     const originalNode = nodeMap.get(d.data.id);
-    if (originalNode) {
-        let x = d.x;
-        let y = d.y;
-
-        if (direction === 'horizontal') {
-            // Swap for horizontal layout
-            // D3 standard: x = breadth, y = depth
-            x = d.y; 
-            y = d.x;
-        } 
-
+    const point = positions.get(d.data.id);
+    if (originalNode && point) {
         updatedNodes.push({
             ...originalNode,
-            x: x,
-            y: y,
+            x: point.x - origin.x,
+            y: point.y - origin.y,
         });
     }
   });
 
+  if (hidden.size === 0) return updatedNodes;
+
+  // Each hidden node shifts by as much as its nearest visible ancestor did
+  const placed = new Map(updatedNodes.map(n => [n.id, n]));
+  const shiftOf = (node: MindMapNode): { dx: number, dy: number } => {
+      const moved = placed.get(node.id);
+      if (moved) return { dx: moved.x - node.x, dy: moved.y - node.y };
+      const parent = node.parentId !== null ? nodeMap.get(node.parentId) : undefined;
+      return parent ? shiftOf(parent) : { dx: 0, dy: 0 };
+  };
+  nodes.filter(n => hidden.has(n.id)).forEach(n => {
+      const { dx, dy } = shiftOf(n);
+      updatedNodes.push({ ...n, x: n.x + dx, y: n.y + dy });
+  });
   return updatedNodes;
 };
+
+export interface BranchLayoutOptions {
+  kind?: LayoutKind;
+  spacing?: LayoutSpacing;
+  sizes?: Map<string, NodeSize>;
+  // Flipped left to right around the branch root, for branches left of a balanced or radial root
+  mirrored?: boolean;
+}
+
+/**
+ * Lays out a detached branch (its root has no parent in `nodes`) and shifts the
+ * result so the branch root lands on `anchor`. Used when grafting generated or
+ * pasted nodes into an existing map without moving anything else.
+ */
+export const layoutBranch = (
+  nodes: MindMapNode[],
+  anchor: { x: number, y: number },
+  { kind = 'horizontal', spacing = DEFAULT_LAYOUT_SPACING[kind], sizes, mirrored = false }: BranchLayoutOptions = {}
+): MindMapNode[] => {
+  // The branch is being filled in, so its root counts as open even if it was collapsed
+  const open = nodes.map(n => n.parentId === null ? { ...n, collapsed: undefined } : n);
+  const laidOut = applyAutoLayout(open, kind, spacing, sizes);
+  const root = laidOut.find(n => n.parentId === null);
+  if (!root) return laidOut;
+
+  // Mirroring flips each box around the root's centre, so the boxes keep their width
+  const centreOf = (n: MindMapNode) => boxOf(n, sizes).x + boxOf(n, sizes).width / 2;
+  const rootCentre = centreOf(root);
+  const flipped = mirrored ? laidOut.map(n => ({ ...n, x: n.x + 2 * (rootCentre - centreOf(n)) })) : laidOut;
+
+  const dx = anchor.x - root.x;
+  const dy = anchor.y - root.y;
+  return flipped.map(n => ({ ...n, x: n.x + dx, y: n.y + dy }));
+};
+
+/**
+ * Moves `nodes` to their places in `ideal`, a layout of the same nodes, except
+ * that pinned nodes stay where they are. Every other node is carried along by
+ * however far its parent ended up from its own place in `ideal`, then moves
+ * along the sibling axis of `kind` to the nearest spot clear of the nodes
+ * placed before it.
+ */
+export const settleAroundPinned = (
+  nodes: MindMapNode[],
+  ideal: MindMapNode[],
+  kind: LayoutKind,
+  spacing: LayoutSpacing,
+  sizes?: Map<string, NodeSize>
+): MindMapNode[] => {
+  const idealMap = new Map(ideal.map(n => [n.id, n]));
+  const nodeMap = new Map(nodes.map(n => [n.id, n]));
+  const hidden = getHiddenIds(nodes);
+  const axis = breadthAxis(kind);
+
+  // Pinned nodes are fixed first; the rest follow parents before children
+  const placed = new Map<string, MindMapNode>();
+  const obstacles: NodeBox[] = [];
+  const visible = nodes.filter(n => !hidden.has(n.id));
+  visible.filter(n => n.pinned).forEach(n => {
+    placed.set(n.id, n);
+    obstacles.push(boxOf(n, sizes));
+  });
+
+  const depths = getDepths(visible);
+  [...visible].sort((a, b) => (depths.get(a.id) ?? 0) - (depths.get(b.id) ?? 0)).forEach(n => {
+    if (placed.has(n.id)) return;
+    const target = idealMap.get(n.id)!;
+    const parent = n.parentId !== null ? placed.get(n.parentId) : undefined;
+    const parentIdeal = n.parentId !== null ? idealMap.get(n.parentId) : undefined;
+    const dx = parent && parentIdeal ? parent.x - parentIdeal.x : 0;
+    const dy = parent && parentIdeal ? parent.y - parentIdeal.y : 0;
+
+    const box = boxOf({ ...target, x: target.x + dx, y: target.y + dy }, sizes);
+    const offset = findClearOffset([box], obstacles, axis, spacing.sibling);
+    const moved = { ...box, [axis]: box[axis] + offset };
+    placed.set(n.id, { ...n, x: moved.x + NODE_OFFSET.x, y: moved.y + NODE_OFFSET.y });
+    obstacles.push(moved);
+  });
+
+  // Hidden nodes keep their place relative to their nearest visible ancestor
+  const shiftOf = (node: MindMapNode): { dx: number, dy: number } => {
+    const moved = placed.get(node.id);
+    if (moved) return { dx: moved.x - node.x, dy: moved.y - node.y };
+    const parent = node.parentId !== null ? nodeMap.get(node.parentId) : undefined;
+    return parent ? shiftOf(parent) : { dx: 0, dy: 0 };
+  };
+  return nodes.map(n => {
+    if (placed.has(n.id)) return placed.get(n.id)!;
+    const { dx, dy } = shiftOf(n);
+    return { ...n, x: n.x + dx, y: n.y + dy };
+  });
+};
+
+/**
+ * Auto layout that leaves pinned nodes where they are and arranges everything
+ * else around them (see settleAroundPinned). Without pinned nodes this is the
+ * full layout.
+ */
+export const applyIncrementalLayout = (
+  nodes: MindMapNode[],
+  kind: LayoutKind = 'horizontal',
+  spacing: LayoutSpacing = DEFAULT_LAYOUT_SPACING[kind],
+  sizes?: Map<string, NodeSize>
+): MindMapNode[] => {
+  const ideal = applyAutoLayout(nodes, kind, spacing, sizes);
+  return nodes.some(n => n.pinned) ? settleAroundPinned(nodes, ideal, kind, spacing, sizes) : ideal;
+};
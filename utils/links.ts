@@ -0,0 +1,42 @@
+
+import { LinkType, SecondaryLink } from '../types';
+
+// Stroke colors for cross-links; untyped links use the 'related' amber
+export const LINK_TYPE_COLORS: Record<LinkType, string> = {
+  related: '#f59e0b',     // amber-500
+  supports: '#10b981',    // emerald-500
+  contradicts: '#ef4444', // red-500
+  causes: '#3b82f6',      // blue-500
+  example: '#a855f7',     // purple-500
+};
+
+export const LINK_TYPES = Object.keys(LINK_TYPE_COLORS) as LinkType[];
+
+// Identifies a cross-link; there is at most one per source and target
+export const linkKey = (link: SecondaryLink) => `${link.sourceId}->${link.targetId}`;
+
+export const LINK_TYPE_LABELS: Record<LinkType, string> = {
+  related: 'Related to',
+  supports: 'Supports',
+  contradicts: 'Contradicts',
+  causes: 'Causes',
+  example: 'Example of',
+};
+
+/**
+ * Bezier curve between two points, leaving and entering horizontally when the
+ * points are further apart sideways and vertically otherwise. Both variants are
+ * symmetric, so the midpoint of the endpoints lies on the curve.
+ */
+export const getLinkPath = (source: { x: number, y: number }, target: { x: number, y: number }): string => {
+  if (Math.abs(target.x - source.x) > Math.abs(target.y - source.y)) {
+    const midX = (source.x + target.x) / 2;
+    return `M ${source.x} ${source.y} C ${midX} ${source.y}, ${midX} ${target.y}, ${target.x} ${target.y}`;
+  }
+  const midY = (source.y + target.y) / 2;
+  return `M ${source.x} ${source.y} C ${source.x} ${midY}, ${target.x} ${midY}, ${target.x} ${target.y}`;
+};
+
+// Text drawn on a cross-link: its own label, else the relationship unless it is the plain default
+export const getLinkLabel = (link: SecondaryLink): string | undefined =>
+  link.label || (link.type && link.type !== 'related' ? LINK_TYPE_LABELS[link.type] : undefined);
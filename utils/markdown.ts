@@ -0,0 +1,191 @@
+
+import { LinkType, MindMapNode, SecondaryLink } from '../types';
+import { LINK_TYPES } from './links';
+
+// Heading for the trailing section that holds cross-links, one "A → B" bullet each
+const RELATED_HEADING = 'Related';
+const ARROW = '→';
+
+// Nodes this deep or deeper are written as nested bullets instead of headings
+const BULLET_DEPTH = 2;
+
+// Description lines that would otherwise read back as a heading, bullet or fence
+const escapeLine = (line: string) => /^\s*([#>*+-]|\d+[.)]|```)/.test(line) ? `\\${line}` : line;
+const unescapeLine = (line: string) => line.replace(/^(\s*)\\/, '$1');
+
+const singleLine = (text: string) => text.replace(/\s*\n\s*/g, ' ').trim();
+
+/**
+ * Names a node in the Related section: its label, or its path from the root
+ * when another node has the same label.
+ */
+const referenceTo = (node: MindMapNode, byId: Map<string, MindMapNode>, labelCounts: Map<string, number>) => {
+  if (labelCounts.get(node.label) === 1) return singleLine(node.label);
+  const path: string[] = [];
+  for (let current: MindMapNode | undefined = node; current; current = current.parentId ? byId.get(current.parentId) : undefined) {
+    path.unshift(singleLine(current.label));
+  }
+  return path.join(' > ');
+};
+
+/**
+ * Writes the map as a Markdown outline: the root and first-level branches as
+ * headings, deeper levels as nested bullets, descriptions as text under their
+ * node, and cross-links in a trailing "Related" section.
+ */
+export const mindMapToMarkdown = (nodes: MindMapNode[], links: SecondaryLink[] = []): string => {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const lines: string[] = [];
+
+  const write = (node: MindMapNode, depth: number) => {
+    const label = singleLine(node.label) || 'Untitled';
+    const description = node.description?.trim();
+    if (depth < BULLET_DEPTH) {
+      if (lines.length > 0) lines.push('');
+      lines.push(`${'#'.repeat(depth + 1)} ${label}`);
+      if (description) lines.push('', ...description.split('\n').map(escapeLine));
+      if (depth + 1 === BULLET_DEPTH && nodes.some(n => n.parentId === node.id)) lines.push('');
+    } else {
+      const indent = '  '.repeat(depth - BULLET_DEPTH);
+      lines.push(`${indent}- ${label}`);
+      if (description) lines.push(...description.split('\n').map(line => `${indent}  ${escapeLine(line)}`.trimEnd()));
+    }
+    nodes.filter(n => n.parentId === node.id).forEach(child => write(child, depth + 1));
+  };
+  nodes.filter(n => n.parentId === null || !byId.has(n.parentId)).forEach(root => write(root, 0));
+
+  const valid = links.filter(l => byId.has(l.sourceId) && byId.has(l.targetId));
+  if (valid.length > 0) {
+    const labelCounts = new Map<string, number>();
+    nodes.forEach(n => labelCounts.set(n.label, (labelCounts.get(n.label) || 0) + 1));
+    lines.push('', `## ${RELATED_HEADING}`, '');
+    valid.forEach(link => {
+      const source = referenceTo(byId.get(link.sourceId)!, byId, labelCounts);
+      const target = referenceTo(byId.get(link.targetId)!, byId, labelCounts);
+      const type = link.type && link.type !== 'related' ? link.type : link.label ? 'related' : '';
+      const detail = type ? `: ${type}${link.label ? `, ${singleLine(link.label)}` : ''}` : '';
+      lines.push(`- ${source} ${ARROW} ${target}${detail}`);
+    });
+  }
+  return lines.join('\n') + '\n';
+};
+
+const HEADING = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const BULLET = /^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/;
+const LINK_LINE = new RegExp(`^(.+?)\\s+${ARROW}\\s+(.+?)(?::\\s*(${LINK_TYPES.join('|')})(?:,\\s*(.+))?)?$`);
+
+interface ParsedLink {
+  source: string;
+  target: string;
+  type?: LinkType;
+  label?: string;
+}
+
+/**
+ * Reads a Markdown outline into nodes. Headings nest by level and bullets by
+ * indentation (under the nearest heading above them); other text becomes the
+ * description of the node above it. A "Related" heading whose bullets are all
+ * "A → B" lines is read as cross-links instead of nodes. Positions are left at
+ * zero for the caller to lay out. A single top-level item becomes the root;
+ * otherwise the top-level items hang under a root named `title`.
+ */
+export const markdownToMindMap = (markdown: string, title: string = 'Outline'): { nodes: MindMapNode[], links: SecondaryLink[] } => {
+  const nodes: MindMapNode[] = [];
+  const descriptions = new Map<string, string[]>();
+  const headings: { level: number, id: string }[] = [];
+  let bullets: { indent: number, id: string }[] = [];
+  let current: string | null = null;
+  let inFence = false;
+
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+
+  // Finds the bullets of a Related section, or null if it is an ordinary branch
+  const relatedSection = (start: number): { links: ParsedLink[], end: number } | null => {
+    const links: ParsedLink[] = [];
+    let end = start + 1;
+    for (; end < lines.length && !HEADING.test(lines[end]); end++) {
+      const line = lines[end].trim();
+      if (!line) continue;
+      const bullet = line.match(BULLET);
+      const match = bullet?.[2].match(LINK_LINE);
+      if (!match) return null;
+      links.push({ source: match[1].trim(), target: match[2].trim(), type: match[3] as LinkType | undefined, label: match[4]?.trim() });
+    }
+    return links.length > 0 ? { links, end } : null;
+  };
+
+  const addNode = (label: string, parentId: string | null) => {
+    const node: MindMapNode = { id: crypto.randomUUID(), parentId, label: label || 'Untitled', x: 0, y: 0 };
+    nodes.push(node);
+    descriptions.set(node.id, []);
+    current = node.id;
+    return node;
+  };
+
+  const parsedLinks: ParsedLink[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (/^\s*```/.test(line)) inFence = !inFence;
+    const heading = !inFence && line.match(HEADING);
+    const bullet = !inFence && !heading && line.match(BULLET);
+
+    if (heading) {
+      const level = heading[1].length;
+      if (heading[2] === RELATED_HEADING) {
+        const related = relatedSection(i);
+        if (related) {
+          parsedLinks.push(...related.links);
+          i = related.end - 1;
+          current = null;
+          continue;
+        }
+      }
+      while (headings.length > 0 && headings[headings.length - 1].level >= level) headings.pop();
+      const node = addNode(heading[2], headings[headings.length - 1]?.id ?? null);
+      headings.push({ level, id: node.id });
+      bullets = [];
+    } else if (bullet) {
+      const indent = bullet[1].replace(/\t/g, '    ').length;
+      while (bullets.length > 0 && bullets[bullets.length - 1].indent >= indent) bullets.pop();
+      const parentId = bullets[bullets.length - 1]?.id ?? headings[headings.length - 1]?.id ?? null;
+      const node = addNode(bullet[2].trim(), parentId);
+      bullets.push({ indent, id: node.id });
+    } else if (current) {
+      descriptions.get(current)!.push(inFence || /^\s*```/.test(line) ? line : unescapeLine(line.trim()));
+    }
+  }
+
+  nodes.forEach(node => {
+    // Drop the blank lines around a description but keep paragraph breaks inside it
+    const text = descriptions.get(node.id)!.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+    if (text) node.description = text;
+  });
+
+  const roots = nodes.filter(n => n.parentId === null);
+  if (roots.length !== 1) {
+    const root: MindMapNode = { id: crypto.randomUUID(), parentId: null, label: title, x: 0, y: 0 };
+    roots.forEach(n => { n.parentId = root.id; });
+    nodes.unshift(root);
+  }
+
+  // Resolve "A > B > C" paths first, then plain labels
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const pathOf = (node: MindMapNode): string => {
+    const parent = node.parentId ? byId.get(node.parentId) : undefined;
+    return parent ? `${pathOf(parent)} > ${node.label}` : node.label;
+  };
+  const find = (reference: string) =>
+    nodes.find(n => pathOf(n) === reference || pathOf(n).endsWith(` > ${reference}`) && reference.includes(' > '))
+    ?? nodes.find(n => n.label === reference);
+
+  const links: SecondaryLink[] = [];
+  parsedLinks.forEach(parsed => {
+    const source = find(parsed.source);
+    const target = find(parsed.target);
+    if (!source || !target || source.id === target.id) return;
+    links.push({ sourceId: source.id, targetId: target.id, type: parsed.type, label: parsed.label });
+  });
+
+  return { nodes, links };
+};
@@ -0,0 +1,167 @@
+
+import { LayoutKind, LayoutSpacing, MindMapNode } from '../types';
+import { DEFAULT_LAYOUT_SPACING, layoutBranch } from './layout';
+import { withFreshIds } from './normalize';
+import { getHiddenIds, withCollapsed } from './tree';
+import { getNodeBox } from './nodeBox';
+import { branchLayoutFor, breadthAxis, findClearOffset } from './placement';
+
+// Labels at least this similar are treated as the same topic
+const MATCH_THRESHOLD = 0.8;
+
+const normalizeLabel = (label: string) => label.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const bigrams = (text: string): string[] => {
+  const result: string[] = [];
+  for (let i = 0; i < text.length - 1; i++) result.push(text.slice(i, i + 2));
+  return result;
+};
+
+/**
+ * Dice coefficient over character bigrams of the normalized labels:
+ * 1 for identical labels, 0 for labels sharing nothing.
+ */
+export const labelSimilarity = (a: string, b: string): number => {
+  const left = normalizeLabel(a);
+  const right = normalizeLabel(b);
+  if (left === right) return 1;
+  if (left.length < 2 || right.length < 2) return 0;
+
+  const counts = new Map<string, number>();
+  bigrams(left).forEach(g => counts.set(g, (counts.get(g) || 0) + 1));
+  let overlap = 0;
+  bigrams(right).forEach(g => {
+    const count = counts.get(g) || 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(g, count - 1);
+    }
+  });
+  return (2 * overlap) / (left.length - 1 + right.length - 1);
+};
+
+/**
+ * Positions nodes being added to an existing map. Each group of new nodes that
+ * hangs off an existing parent is laid out as a branch of that parent in the
+ * map's layout and pushed past the parent's existing children along the
+ * sibling axis, and further if it would still overlap a visible node, so
+ * nothing already on the canvas moves. A collapsed parent is opened so the
+ * new nodes can be seen.
+ */
+export const placeNewNodes = (
+  existing: MindMapNode[],
+  added: MindMapNode[],
+  kind: LayoutKind = 'horizontal',
+  spacing: LayoutSpacing = DEFAULT_LAYOUT_SPACING[kind]
+): MindMapNode[] => {
+  const existingMap = new Map(existing.map(n => [n.id, n]));
+  const addedIds = new Set(added.map(n => n.id));
+  const positions = new Map<string, { x: number, y: number }>();
+
+  const collectAdded = (parentId: string): MindMapNode[] =>
+    added.filter(n => n.parentId === parentId).flatMap(n => [n, ...collectAdded(n.id)]);
+
+  const anchors = new Set(added.filter(n => n.parentId !== null && existingMap.has(n.parentId)).map(n => n.parentId!));
+  const opened = existing.map(n => anchors.has(n.id) && n.collapsed ? withCollapsed(n, false) : n);
+  const hidden = getHiddenIds(opened);
+  const obstacles = opened.filter(n => !hidden.has(n.id)).map(n => getNodeBox(n));
+  anchors.forEach(parentId => {
+    const parent = existingMap.get(parentId)!;
+    const branch = branchLayoutFor(existing, parent, kind);
+    const laidOut = layoutBranch([{ ...parent, parentId: null }, ...collectAdded(parentId)], parent, { ...branch, spacing })
+      .filter(n => addedIds.has(n.id));
+    if (laidOut.length === 0) return;
+
+    // Start the new branch after whatever the parent already has
+    const axis = breadthAxis(branch.kind);
+    const size = axis === 'x' ? 'width' : 'height';
+    const boxes = laidOut.map(n => getNodeBox(n));
+    const siblings = existing.filter(n => n.parentId === parentId).map(n => getNodeBox(n));
+    const offset = siblings.length > 0
+      ? Math.max(0, Math.max(...siblings.map(b => b[axis] + b[size])) + spacing.sibling - Math.min(...boxes.map(b => b[axis])))
+      : 0;
+    const shifted = boxes.map(b => ({ ...b, [axis]: b[axis] + offset }));
+    const shift = offset + findClearOffset(shifted, obstacles, axis, spacing.sibling, true);
+    laidOut.forEach(n => positions.set(n.id, { x: n.x, y: n.y, [axis]: n[axis] + shift }));
+    // Later branches keep clear of this one too
+    boxes.forEach(box => obstacles.push({ ...box, [axis]: box[axis] + shift }));
+  });
+
+  return [...opened, ...added.map(n => ({ ...n, ...positions.get(n.id) }))];
+};
+
+// Default id factory; streaming callers pass a deterministic one so ids stay stable between frames
+const randomId = () => crypto.randomUUID();
+
+/**
+ * Adds a generated tree as a new branch under `parentId`. The generated root
+ * becomes a child of that node; every generated node gets a fresh id.
+ */
+export const appendBranch = (
+  existing: MindMapNode[],
+  incoming: MindMapNode[],
+  parentId: string,
+  makeId: (id: string) => string = randomId,
+  kind?: LayoutKind,
+  spacing?: LayoutSpacing
+): MindMapNode[] => {
+  const added = withFreshIds(incoming, [], makeId).map(n => n.parentId === null ? { ...n, parentId } : n);
+  return placeNewNodes(existing, added, kind, spacing);
+};
+
+/**
+ * Folds a generated tree into an existing map. The roots are identified with each
+ * other; every other incoming node is matched to an existing node by label
+ * similarity (preferring one under the same parent) and skipped if it matches,
+ * otherwise it is added under the node its parent was matched to. `idMap` maps
+ * every incoming id to the node it ended up as, for carrying links across.
+ */
+export const mergeMindMaps = (
+  existing: MindMapNode[],
+  incoming: MindMapNode[],
+  makeId: (id: string) => string = randomId,
+  kind?: LayoutKind,
+  spacing?: LayoutSpacing
+): { nodes: MindMapNode[], added: number, skipped: number, idMap: Map<string, string> } => {
+  const existingRoot = existing.find(n => n.parentId === null);
+  const incomingRoot = incoming.find(n => n.parentId === null);
+  if (!existingRoot || !incomingRoot) return { nodes: existing, added: 0, skipped: 0, idMap: new Map() };
+
+  // incoming id -> id of the node it became (an existing match or a new node)
+  const resolved = new Map<string, string>([[incomingRoot.id, existingRoot.id]]);
+  const matched = new Set<string>([existingRoot.id]);
+  const added: MindMapNode[] = [];
+  let skipped = 0;
+
+  const visit = (incomingParentId: string) => {
+    incoming.filter(n => n.parentId === incomingParentId).forEach(node => {
+      const parentId = resolved.get(incomingParentId)!;
+
+      let best: MindMapNode | undefined;
+      let bestScore = 0;
+      existing.forEach(candidate => {
+        if (matched.has(candidate.id)) return;
+        const similarity = labelSimilarity(candidate.label, node.label);
+        const score = similarity + (candidate.parentId === parentId ? 0.1 : 0);
+        if (similarity >= MATCH_THRESHOLD && score > bestScore) {
+          best = candidate;
+          bestScore = score;
+        }
+      });
+
+      if (best) {
+        matched.add(best.id);
+        resolved.set(node.id, best.id);
+        skipped++;
+      } else {
+        const id = makeId(node.id);
+        resolved.set(node.id, id);
+        added.push({ ...node, id, parentId });
+      }
+      visit(node.id);
+    });
+  };
+  visit(incomingRoot.id);
+
+  return { nodes: placeNewNodes(existing, added, kind, spacing), added: added.length, skipped, idMap: resolved };
+};
@@ -0,0 +1,106 @@
+
+import { MindMapNode, NodeStyle, SecondaryLink } from '../types';
+import { LINK_TYPE_COLORS, getLinkLabel } from './links';
+import { NODE_FONTS } from './nodeBox';
+
+// Labels go inside double quotes, where Mermaid reads #quot; and other entity codes, in flowcharts and mindmaps alike
+const quote = (text: string) => `"${text.replace(/\s*\n\s*/g, ' ').replace(/"/g, '#quot;')}"`;
+
+const childrenOf = (nodes: MindMapNode[], id: string) => nodes.filter(n => n.parentId === id);
+
+const rootsOf = (nodes: MindMapNode[]) => {
+  const ids = new Set(nodes.map(n => n.id));
+  return nodes.filter(n => n.parentId === null || !ids.has(n.parentId));
+};
+
+// Mermaid ids must be plain words, so nodes are numbered in map order
+const mermaidIds = (nodes: MindMapNode[]) => new Map(nodes.map((n, i) => [n.id, `n${i + 1}`]));
+
+/**
+ * Writes the hierarchy as a Mermaid `mindmap`. The format has no cross-links
+ * or per-node colors, so only labels and shapes carry over. It has no pill
+ * either (`((…))` is a circle), so pills come out rounded.
+ */
+export const mindMapToMermaidMindmap = (nodes: MindMapNode[]): string => {
+  const ids = mermaidIds(nodes);
+  const shaped = (node: MindMapNode) => {
+    const label = quote(node.label);
+    const shape = node.style?.shape;
+    return shape === 'rect' ? `${ids.get(node.id)}[${label}]` : `${ids.get(node.id)}(${label})`;
+  };
+
+  const lines = ['mindmap'];
+  const write = (node: MindMapNode, depth: number) => {
+    lines.push(`${'  '.repeat(depth)}${shaped(node)}`);
+    childrenOf(nodes, node.id).forEach(child => write(child, depth + 1));
+  };
+
+  const roots = rootsOf(nodes);
+  // A mindmap has exactly one root
+  if (roots.length === 1) {
+    write(roots[0], 1);
+  } else {
+    lines.push(`  root(${quote('Mind Map')})`);
+    roots.forEach(root => write(root, 2));
+  }
+  return lines.join('\n') + '\n';
+};
+
+const classDefinition = (style: NodeStyle) => {
+  const font = style.fontSize ? NODE_FONTS[style.fontSize] : undefined;
+  return [
+    style.backgroundColor && `fill:${style.backgroundColor}`,
+    style.borderColor && `stroke:${style.borderColor}`,
+    style.textColor && `color:${style.textColor}`,
+    font && `font-size:${font.size}px`,
+    font && font.weight !== NODE_FONTS.md.weight && `font-weight:${font.weight}`,
+  ].filter(Boolean).join(',');
+};
+
+/**
+ * Writes the map as a Mermaid `flowchart`: tree links as arrows, cross-links
+ * as dotted arrows in their type's color with their label, and each distinct
+ * NodeStyle as a classDef shared by the nodes that use it.
+ */
+export const mindMapToMermaidFlowchart = (nodes: MindMapNode[], links: SecondaryLink[] = []): string => {
+  const ids = mermaidIds(nodes);
+  const lines = ['flowchart LR'];
+
+  nodes.forEach(node => {
+    const id = ids.get(node.id);
+    const label = quote(node.label);
+    const shape = node.style?.shape;
+    if (shape === 'rect') lines.push(`  ${id}[${label}]`);
+    else if (shape === 'pill') lines.push(`  ${id}([${label}])`);
+    else lines.push(`  ${id}(${label})`);
+  });
+
+  // linkStyle addresses links by the order they were declared
+  let linkIndex = 0;
+  const linkStyles: string[] = [];
+  nodes.forEach(node => {
+    if (node.parentId && ids.has(node.parentId)) {
+      lines.push(`  ${ids.get(node.parentId)} --> ${ids.get(node.id)}`);
+      linkIndex++;
+    }
+  });
+  links.forEach(link => {
+    if (!ids.has(link.sourceId) || !ids.has(link.targetId)) return;
+    const label = getLinkLabel(link);
+    lines.push(`  ${ids.get(link.sourceId)} -.->${label ? `|${quote(label)}|` : ''} ${ids.get(link.targetId)}`);
+    linkStyles.push(`  linkStyle ${linkIndex++} stroke:${LINK_TYPE_COLORS[link.type || 'related']}`);
+  });
+  lines.push(...linkStyles);
+
+  const classes = new Map<string, string[]>();
+  nodes.forEach(node => {
+    const definition = node.style ? classDefinition(node.style) : '';
+    if (!definition) return;
+    classes.set(definition, [...(classes.get(definition) || []), ids.get(node.id)!]);
+  });
+  [...classes.entries()].forEach(([definition, members], i) => {
+    lines.push(`  classDef style${i + 1} ${definition}`, `  class ${members.join(',')} style${i + 1}`);
+  });
+
+  return lines.join('\n') + '\n';
+};
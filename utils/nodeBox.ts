@@ -0,0 +1,59 @@
+
+import { MindMapNode, NodeStyle } from '../types';
+
+// Mirrors the canvas node: px-4 py-2 border-2, min-w-[80px] max-w-[300px],
+// drawn with its top-left corner 12px left of and 20px above the node's (x, y)
+export const NODE_OFFSET = { x: 12, y: 20 };
+const PADDING_X = 16;
+const PADDING_Y = 8;
+const BORDER = 2;
+const MIN_WIDTH = 80;
+const MAX_WIDTH = 300;
+
+// text-xs / text-sm / text-lg font-semibold, all font-medium or bolder
+export const NODE_FONTS: Record<NonNullable<NodeStyle['fontSize']>, { size: number, lineHeight: number, weight: number }> = {
+  sm: { size: 12, lineHeight: 16, weight: 500 },
+  md: { size: 14, lineHeight: 20, weight: 500 },
+  lg: { size: 18, lineHeight: 28, weight: 600 },
+};
+
+export const NODE_FONT_FAMILY = "Inter, sans-serif";
+
+// rounded-md / rounded-xl / rounded-full
+export const cornerRadius = (shape: NodeStyle['shape'], height: number) =>
+  shape === 'rect' ? 6 : shape === 'pill' ? height / 2 : 12;
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+const measure = (text: string, font: string) => {
+  measureContext = measureContext || document.createElement('canvas').getContext('2d');
+  if (!measureContext) return text.length * 8;
+  measureContext.font = font;
+  return measureContext.measureText(text).width;
+};
+
+export interface NodeBox {
+  x: number;       // top-left corner
+  y: number;
+  width: number;
+  height: number;
+  text: string;    // label as drawn, ellipsized to fit like the canvas's `truncate`
+}
+
+export type NodeSize = Pick<NodeBox, 'width' | 'height'>;
+
+/** The rectangle a node occupies on the canvas, computed without the DOM. */
+export const getNodeBox = (node: MindMapNode): NodeBox => {
+  const font = NODE_FONTS[node.style?.fontSize || 'md'];
+  const cssFont = `${font.weight} ${font.size}px ${NODE_FONT_FAMILY}`;
+  const maxText = MAX_WIDTH - 2 * (PADDING_X + BORDER);
+
+  let text = node.label;
+  if (measure(text, cssFont) > maxText) {
+    while (text.length > 1 && measure(`${text}…`, cssFont) > maxText) text = text.slice(0, -1);
+    text = `${text.trimEnd()}…`;
+  }
+  const width = Math.min(MAX_WIDTH, Math.max(MIN_WIDTH, Math.ceil(measure(text, cssFont)) + 2 * (PADDING_X + BORDER)));
+  const height = font.lineHeight + 2 * (PADDING_Y + BORDER);
+  return { x: node.x - NODE_OFFSET.x, y: node.y - NODE_OFFSET.y, width, height, text };
+};
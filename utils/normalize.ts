@@ -0,0 +1,231 @@
+
+import { GenerationOptions, MindMapNode, SecondaryLink } from '../types';
+import { LINK_TYPES } from './links';
+import { LABEL_WORDS } from '../services/prompt';
+
+export interface NormalizeResult {
+  nodes: MindMapNode[];
+  // Human readable list of repairs, empty when the input was already a valid tree
+  fixes: string[];
+}
+
+const plural = (count: number, word: string, pluralWord = `${word}s`) => `${count} ${count === 1 ? word : pluralWord}`;
+
+/**
+ * Turns an untrusted node list (usually straight from a model) into a single
+ * well-formed tree: every id unique, every parentId pointing at a real node,
+ * no cycles and exactly one root. Nodes are never dropped silently; anything
+ * that can't be placed is re-attached under the root and counted in `fixes`.
+ */
+export const normalizeNodes = (rawNodes: any[]): NormalizeResult => {
+  const fixes: string[] = [];
+
+  // 1. Coerce shapes and drop entries that are not nodes at all
+  const candidates = rawNodes.filter(n => n && typeof n === 'object');
+  if (candidates.length < rawNodes.length) {
+    fixes.push(`Skipped ${plural(rawNodes.length - candidates.length, 'invalid entry', 'invalid entries')}`);
+  }
+
+  // Only the content fields are taken; styles and view state are the user's to set, and unchecked they could break the saved map
+  let nodes: MindMapNode[] = candidates.map((n, i) => {
+    const parentId = n.parentId === undefined || n.parentId === '' || n.parentId === 'null' ? null : n.parentId;
+    return {
+      id: n.id === undefined || n.id === null || n.id === '' ? `node-${i}` : String(n.id),
+      parentId: parentId === null ? null : String(parentId),
+      label: typeof n.label === 'string' && n.label.trim() ? n.label.trim() : String(n.label ?? 'Untitled'),
+      description: typeof n.description === 'string' && n.description.trim() ? n.description : undefined,
+      x: typeof n.x === 'number' ? n.x : 0,
+      y: typeof n.y === 'number' ? n.y : 0,
+    };
+  });
+  if (nodes.length === 0) return { nodes, fixes };
+
+  // 2. Deduplicate ids. Exact repeats are dropped, clashing ids get a suffix.
+  // Seeded with every id up front so a renamed node can't take an id used later in the list
+  const seen = new Set(nodes.map(n => n.id));
+  const sameId = new Map<string, MindMapNode[]>();
+  let removedDuplicates = 0;
+  let renamedDuplicates = 0;
+  nodes = nodes.filter(node => {
+    const previous = sameId.get(node.id);
+    if (!previous) {
+      sameId.set(node.id, [node]);
+      return true;
+    }
+    if (previous.some(p => p.label === node.label && p.parentId === node.parentId)) {
+      removedDuplicates++;
+      return false;
+    }
+    previous.push(node);
+    let suffix = 2;
+    while (seen.has(`${node.id}-${suffix}`)) suffix++;
+    node.id = `${node.id}-${suffix}`;
+    seen.add(node.id);
+    renamedDuplicates++;
+    return true;
+  });
+  if (removedDuplicates) fixes.push(`Removed ${plural(removedDuplicates, 'duplicate node')}`);
+  if (renamedDuplicates) fixes.push(`Renamed ${plural(renamedDuplicates, 'clashing node ID')}`);
+
+  const nodeMap = new Map(nodes.map(n => [n.id, n]));
+  const declaredRoots = nodes.filter(n => n.parentId === null);
+
+  // 3. Detach nodes whose parent doesn't exist; they are re-attached to the root below
+  let orphans = 0;
+  nodes.forEach(node => {
+    if (node.parentId !== null && !nodeMap.has(node.parentId)) {
+      node.parentId = null;
+      orphans++;
+    }
+  });
+
+  // 4. Break cycles by detaching the node where the parent chain loops back
+  let cycles = 0;
+  const settled = new Set<string>();
+  nodes.forEach(start => {
+    const path = new Set<string>();
+    let current: MindMapNode | undefined = start;
+    while (current && current.parentId !== null && !settled.has(current.id)) {
+      if (path.has(current.id)) {
+        current.parentId = null;
+        cycles++;
+        break;
+      }
+      path.add(current.id);
+      current = nodeMap.get(current.parentId);
+    }
+    path.forEach(id => settled.add(id));
+  });
+
+  // 5. Keep a single root: the first node the model declared as one
+  const root = declaredRoots[0] || nodes.find(n => n.parentId === null)!;
+  nodes.forEach(node => {
+    if (node !== root && node.parentId === null) node.parentId = root.id;
+  });
+  const extraRoots = Math.max(declaredRoots.length - 1, 0);
+
+  if (orphans) fixes.push(`Re-attached ${plural(orphans, 'orphaned node')} to the root`);
+  if (cycles) fixes.push(`Broke ${plural(cycles, 'parent cycle')}`);
+  if (extraRoots > 0) fixes.push(`Merged ${plural(extraRoots, 'extra root')} under "${root.label}"`);
+
+  return { nodes, fixes };
+};
+
+/**
+ * Gives every node except those in `keep` a new id (random unless `makeId` says
+ * otherwise), rewriting parentIds to match, so the nodes can be merged into a
+ * map without id clashes.
+ */
+export const withFreshIds = (
+  nodes: MindMapNode[],
+  keep: string[] = [],
+  makeId: (id: string) => string = () => crypto.randomUUID()
+): MindMapNode[] => {
+  const idMap = new Map<string, string>();
+  nodes.forEach(n => idMap.set(n.id, keep.includes(n.id) ? n.id : makeId(n.id)));
+
+  return nodes.map(n => ({
+    ...n,
+    id: idMap.get(n.id)!,
+    parentId: n.parentId !== null && idMap.has(n.parentId) ? idMap.get(n.parentId)! : n.parentId,
+  }));
+};
+
+const sameLink = (a: SecondaryLink, b: SecondaryLink) =>
+  (a.sourceId === b.sourceId && a.targetId === b.targetId) || (a.sourceId === b.targetId && a.targetId === b.sourceId);
+
+/**
+ * Filters untrusted cross-links down to ones that can be drawn on `nodes`:
+ * both ends must exist, differ, and not already be parent and child, and a
+ * link already in `existing` (in either direction) is not repeated.
+ */
+export const normalizeLinks = (
+  rawLinks: any[],
+  nodes: MindMapNode[],
+  existing: SecondaryLink[] = []
+): SecondaryLink[] => {
+  const nodeMap = new Map(nodes.map(n => [n.id, n]));
+  const accepted: SecondaryLink[] = [];
+
+  rawLinks.forEach(raw => {
+    if (!raw || typeof raw !== 'object') return;
+    const sourceId = String(raw.sourceId ?? '');
+    const targetId = String(raw.targetId ?? '');
+    const source = nodeMap.get(sourceId);
+    const target = nodeMap.get(targetId);
+    if (!source || !target || source === target) return;
+    if (source.parentId === targetId || target.parentId === sourceId) return;
+
+    const link: SecondaryLink = {
+      sourceId,
+      targetId,
+      type: LINK_TYPES.includes(raw.type) ? raw.type : 'related',
+      label: typeof raw.label === 'string' && raw.label.trim() ? raw.label.trim() : undefined,
+    };
+    if (existing.some(l => sameLink(l, link)) || accepted.some(l => sameLink(l, link))) return;
+    accepted.push(link);
+  });
+
+  return accepted;
+};
+
+/**
+ * Enforces the depth, breadth and label-length limits of `options` on a tree
+ * that has already been through normalizeNodes. Nodes past a limit are dropped
+ * with their subtrees; over-long labels are shortened and the full text kept in
+ * the description. With `rootGroupsSources`, the root only gathers one branch
+ * per source: it is not counted as a level and may have any number of children,
+ * so each source gets the full limits.
+ */
+export const enforceGenerationOptions = (
+  nodes: MindMapNode[],
+  options: GenerationOptions,
+  rootGroupsSources = false
+): NormalizeResult => {
+  const fixes: string[] = [];
+  const root = nodes.find(n => n.parentId === null);
+  if (!root) return { nodes, fixes };
+
+  const childrenOf = new Map<string, MindMapNode[]>();
+  nodes.forEach(n => {
+    if (n.parentId !== null) childrenOf.set(n.parentId, [...(childrenOf.get(n.parentId) || []), n]);
+  });
+
+  // Walk down from the root, keeping the first maxChildren children of each node up to maxDepth
+  const kept = new Set<string>([root.id]);
+  let tooDeep = 0;
+  let tooWide = 0;
+  const countSubtree = (node: MindMapNode): number =>
+    1 + (childrenOf.get(node.id) || []).reduce((sum, c) => sum + countSubtree(c), 0);
+  const visit = (node: MindMapNode, depth: number) => {
+    (childrenOf.get(node.id) || []).forEach((child, i) => {
+      if (depth + 1 > options.maxDepth) {
+        tooDeep += countSubtree(child);
+      } else if (i >= options.maxChildren && !(rootGroupsSources && node === root)) {
+        tooWide += countSubtree(child);
+      } else {
+        kept.add(child.id);
+        visit(child, depth + 1);
+      }
+    });
+  };
+  visit(root, rootGroupsSources ? -1 : 0);
+  if (tooDeep) fixes.push(`Trimmed ${plural(tooDeep, 'node')} deeper than ${options.maxDepth} levels`);
+  if (tooWide) fixes.push(`Trimmed ${plural(tooWide, 'node')} over the ${options.maxChildren}-children limit`);
+
+  const maxWords = LABEL_WORDS[options.labelLength].max;
+  let shortened = 0;
+  const result = nodes.filter(n => kept.has(n.id)).map(n => {
+    const words = n.label.split(/\s+/);
+    if (words.length <= maxWords) return n;
+    shortened++;
+    return {
+      ...n,
+      label: `${words.slice(0, maxWords).join(' ')}…`,
+      description: n.description ? `${n.label}\n\n${n.description}` : n.label,
+    };
+  });
+  if (shortened) fixes.push(`Shortened ${plural(shortened, 'label')}`);
+
+  return { nodes: result, fixes };
+};
@@ -0,0 +1,131 @@
+
+import { LinkType, MindMapNode, NodeStyle, SecondaryLink } from '../types';
+import { LINK_TYPES } from './links';
+import { childElements, escapeXml, parseXml } from './xml';
+
+// OPML has no styles or cross-links; they travel in underscore attributes like the common `_note`
+const STYLE_ATTRIBUTES: (keyof NodeStyle)[] = ['textColor', 'backgroundColor', 'borderColor', 'shape', 'fontSize'];
+
+interface OpmlLink {
+  target: string;
+  type?: LinkType;
+  label?: string;
+}
+
+/**
+ * Writes the map as OPML 2.0. Descriptions go in `_note`, NodeStyle fields in
+ * `_textColor`, `_backgroundColor` and so on, and each node's outgoing
+ * cross-links as JSON in `_links`, pointing at the target's `_id`.
+ */
+export const mindMapToOpml = (nodes: MindMapNode[], links: SecondaryLink[] = []): string => {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const linked = new Set(links.flatMap(l => [l.sourceId, l.targetId]));
+
+  const write = (node: MindMapNode, depth: number): string => {
+    const outgoing: OpmlLink[] = links
+      .filter(l => l.sourceId === node.id && byId.has(l.targetId))
+      .map(l => ({ target: l.targetId, type: l.type, label: l.label }));
+    const attributes = [
+      `text="${escapeXml(node.label)}"`,
+      node.description?.trim() && `_note="${escapeXml(node.description.trim())}"`,
+      ...STYLE_ATTRIBUTES.map(key => node.style?.[key] && `_${key}="${escapeXml(String(node.style[key]))}"`),
+      linked.has(node.id) && `_id="${escapeXml(node.id)}"`,
+      outgoing.length > 0 && `_links="${escapeXml(JSON.stringify(outgoing))}"`,
+    ].filter(Boolean).join(' ');
+
+    const indent = '  '.repeat(depth + 2);
+    const children = nodes.filter(n => n.parentId === node.id);
+    return children.length > 0
+      ? `${indent}<outline ${attributes}>\n${children.map(child => write(child, depth + 1)).join('\n')}\n${indent}</outline>`
+      : `${indent}<outline ${attributes}/>`;
+  };
+
+  const roots = nodes.filter(n => n.parentId === null || !byId.has(n.parentId));
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    `  <head><title>${escapeXml(roots[0]?.label || 'Mind Map')}</title></head>`,
+    '  <body>',
+    ...roots.map(root => write(root, 0)),
+    '  </body>',
+    '</opml>',
+    '',
+  ].join('\n');
+};
+
+const SHAPES = ['rect', 'rounded', 'pill'];
+const FONT_SIZES = ['sm', 'md', 'lg'];
+
+const readStyle = (element: Element): NodeStyle | undefined => {
+  const style: NodeStyle = {};
+  ['textColor', 'backgroundColor', 'borderColor'].forEach(key => {
+    const value = element.getAttribute(`_${key}`);
+    if (value) style[key as 'textColor' | 'backgroundColor' | 'borderColor'] = value;
+  });
+  const shape = element.getAttribute('_shape');
+  if (shape && SHAPES.includes(shape)) style.shape = shape as NodeStyle['shape'];
+  const fontSize = element.getAttribute('_fontSize');
+  if (fontSize && FONT_SIZES.includes(fontSize)) style.fontSize = fontSize as NodeStyle['fontSize'];
+  return Object.keys(style).length > 0 ? style : undefined;
+};
+
+/**
+ * Reads an OPML outline. A single top-level outline becomes the root; several
+ * hang under a root named after the document title. Positions are left at
+ * zero for the caller to lay out.
+ */
+export const opmlToMindMap = (xml: string, name: string = 'Outline'): { nodes: MindMapNode[], links: SecondaryLink[] } => {
+  const doc = parseXml(xml, name);
+  const body = doc.documentElement.tagName === 'opml' ? childElements(doc.documentElement, 'body')[0] : undefined;
+  if (!body) throw new Error(`${name} is not an OPML file (no <opml><body> found)`);
+
+  const nodes: MindMapNode[] = [];
+  const ids = new Map<string, string>();
+  const pending: { sourceId: string, links: OpmlLink[] }[] = [];
+
+  const read = (element: Element, parentId: string | null) => {
+    const id = crypto.randomUUID();
+    const opmlId = element.getAttribute('_id');
+    if (opmlId) ids.set(opmlId, id);
+
+    // `title` is used by some outliners instead of `text`
+    const label = element.getAttribute('text') ?? element.getAttribute('title') ?? '';
+    const node: MindMapNode = { id, parentId, label: label || 'Untitled', x: 0, y: 0 };
+    const note = element.getAttribute('_note')?.trim();
+    if (note) node.description = note;
+    const style = readStyle(element);
+    if (style) node.style = style;
+    nodes.push(node);
+
+    const links = element.getAttribute('_links');
+    if (links) {
+      try {
+        const parsed = JSON.parse(links);
+        if (Array.isArray(parsed)) pending.push({ sourceId: id, links: parsed });
+      } catch (e) {
+        // Links written by another tool in another shape are skipped
+      }
+    }
+    childElements(element, 'outline').forEach(child => read(child, id));
+  };
+
+  const tops = childElements(body, 'outline');
+  if (tops.length === 1) {
+    read(tops[0], null);
+  } else {
+    const title = doc.getElementsByTagName('title')[0]?.textContent?.trim() || name;
+    const root: MindMapNode = { id: crypto.randomUUID(), parentId: null, label: title, x: 0, y: 0 };
+    nodes.push(root);
+    tops.forEach(top => read(top, root.id));
+  }
+
+  const links: SecondaryLink[] = pending.flatMap(({ sourceId, links }) => links
+    .filter(l => typeof l?.target === 'string' && ids.has(l.target) && ids.get(l.target) !== sourceId)
+    .map(l => ({
+      sourceId,
+      targetId: ids.get(l.target)!,
+      type: LINK_TYPES.includes(l.type!) ? l.type : undefined,
+      label: typeof l.label === 'string' ? l.label : undefined,
+    })));
+  return { nodes, links };
+};
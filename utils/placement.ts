@@ -0,0 +1,128 @@
+
+import { LayoutKind, LayoutSpacing, MindMapNode } from '../types';
+import { NODE_OFFSET, NodeBox, NodeSize, getNodeBox } from './nodeBox';
+import { getHiddenIds } from './tree';
+
+export type Axis = 'x' | 'y';
+
+// Boxes exactly `gap` apart count as clear, whatever the rounding
+const EPSILON = 0.01;
+
+// The axis siblings line up along: down the page in the sideways layouts, across in the top-down ones
+export const breadthAxis = (kind: LayoutKind): Axis => kind === 'vertical' || kind === 'org-chart' ? 'x' : 'y';
+
+/** A node's box, with the size measured on the canvas where there is one. */
+export const boxOf = (node: MindMapNode, sizes?: Map<string, NodeSize>): NodeBox => {
+  const box = getNodeBox(node);
+  const size = sizes?.get(node.id);
+  return size ? { ...box, width: size.width, height: size.height } : box;
+};
+
+const collides = (a: NodeBox, b: NodeBox, gap: number) =>
+  a.x < b.x + b.width + gap - EPSILON && b.x < a.x + a.width + gap - EPSILON &&
+  a.y < b.y + b.height + gap - EPSILON && b.y < a.y + a.height + gap - EPSILON;
+
+/**
+ * The smallest shift along `axis` that leaves every box of `group` at least
+ * `gap` clear of every obstacle. With `forwardOnly` the group only moves
+ * down or right.
+ */
+export const findClearOffset = (group: NodeBox[], obstacles: NodeBox[], axis: Axis, gap: number, forwardOnly = false): number => {
+  if (group.length === 0) return 0;
+  const cross: Axis = axis === 'x' ? 'y' : 'x';
+  const size = axis === 'x' ? 'width' : 'height';
+  const crossSize = cross === 'x' ? 'width' : 'height';
+
+  // Only obstacles level with the group on the other axis can be in its way
+  const low = Math.min(...group.map(b => b[cross])) - gap;
+  const high = Math.max(...group.map(b => b[cross] + b[crossSize])) + gap;
+  const inLane = obstacles.filter(o => o[cross] < high && o[cross] + o[crossSize] > low);
+  if (inLane.length === 0) return 0;
+
+  // Candidates: where it is, just past either side of each obstacle, and past all of them
+  const candidates = [0, Math.max(...inLane.map(o => o[axis] + o[size])) + gap - Math.min(...group.map(b => b[axis]))];
+  group.forEach(b => inLane.forEach(o => {
+    if (b[cross] < o[cross] + o[crossSize] + gap && o[cross] < b[cross] + b[crossSize] + gap) {
+      candidates.push(o[axis] + o[size] + gap - b[axis], o[axis] - gap - b[size] - b[axis]);
+    }
+  }));
+
+  const clear = candidates
+    .filter(offset => !forwardOnly || offset >= 0)
+    .sort((a, b) => Math.abs(a) - Math.abs(b))
+    .find(offset => group.every(b => {
+      const moved = { ...b, [axis]: b[axis] + offset };
+      return inLane.every(o => !collides(moved, o, gap));
+    }));
+  return clear ?? candidates[1];
+};
+
+const rootOf = (nodes: MindMapNode[], node: MindMapNode): MindMapNode => {
+  let root = node;
+  while (root.parentId !== null) {
+    const up = nodes.find(n => n.id === root.parentId);
+    if (!up) break;
+    root = up;
+  }
+  return root;
+};
+
+// In a balanced or radial map, branches left of the root grow leftward
+const growsLeftward = (nodes: MindMapNode[], parent: MindMapNode, kind: LayoutKind) =>
+  (kind === 'balanced' || kind === 'radial') && parent.x < rootOf(nodes, parent).x;
+
+/**
+ * How a branch grafted under `parent` is laid out: in the map's own layout,
+ * except that below the root of a balanced or radial map it grows outward as
+ * a sideways tree, mirrored on the left of the root.
+ */
+export const branchLayoutFor = (nodes: MindMapNode[], parent: MindMapNode, kind: LayoutKind): { kind: LayoutKind, mirrored: boolean } => {
+  if ((kind === 'balanced' || kind === 'radial') && parent.parentId !== null) {
+    return { kind: 'horizontal', mirrored: growsLeftward(nodes, parent, kind) };
+  }
+  return { kind, mirrored: false };
+};
+
+/**
+ * Where a new child of `parent` goes: beside the parent on the side its
+ * layout grows towards, after the parent's other children, then moved along
+ * the sibling axis to the nearest spot clear of every visible node.
+ */
+export const placeChild = (
+  nodes: MindMapNode[],
+  parent: MindMapNode,
+  child: MindMapNode,
+  kind: LayoutKind,
+  spacing: LayoutSpacing,
+  sizes?: Map<string, NodeSize>
+): { x: number, y: number } => {
+  const axis = breadthAxis(kind);
+  const parentBox = boxOf(parent, sizes);
+  const { width, height } = getNodeBox(child);
+  const siblings = nodes.filter(n => n.parentId === parent.id && n.id !== child.id).map(n => boxOf(n, sizes));
+
+  let box: NodeBox;
+  if (axis === 'x') {
+    // Below the parent, right of its last child
+    const top = siblings.length > 0 ? Math.min(...siblings.map(b => b.y)) : parentBox.y + parentBox.height + spacing.level;
+    const left = siblings.length > 0
+      ? Math.max(...siblings.map(b => b.x + b.width)) + spacing.sibling
+      : parentBox.x + parentBox.width / 2 - width / 2;
+    box = { x: left, y: top, width, height, text: child.label };
+  } else {
+    // Beside the parent, under its last child; in a balanced or radial map, away from the root
+    const leftward = growsLeftward(nodes, parent, kind);
+    const edge = leftward
+      ? (siblings.length > 0 ? Math.max(...siblings.map(b => b.x + b.width)) : parentBox.x - spacing.level) - width
+      : siblings.length > 0 ? Math.min(...siblings.map(b => b.x)) : parentBox.x + parentBox.width + spacing.level;
+    const top = siblings.length > 0
+      ? Math.max(...siblings.map(b => b.y + b.height)) + spacing.sibling
+      : parentBox.y + parentBox.height / 2 - height / 2;
+    box = { x: edge, y: top, width, height, text: child.label };
+  }
+
+  const hidden = getHiddenIds(nodes);
+  const obstacles = nodes.filter(n => n.id !== child.id && !hidden.has(n.id)).map(n => boxOf(n, sizes));
+  box = { ...box, [axis]: box[axis] + findClearOffset([box], obstacles, axis, spacing.sibling) };
+  return { x: box.x + NODE_OFFSET.x, y: box.y + NODE_OFFSET.y };
+};
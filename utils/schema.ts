@@ -0,0 +1,229 @@
+
+import { MindMapData, MindMapNode } from '../types';
+import { applyAutoLayout } from './layout';
+import { LINK_TYPES } from './links';
+
+// Version written by this build. Bump it together with a new entry in MIGRATIONS.
+export const CURRENT_VERSION = '1.2';
+
+/**
+ * A map file or stored map that cannot be loaded. `issues` lists every problem
+ * found, each naming the node or field at fault; the message shows the first few.
+ */
+export class MindMapFormatError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    const shown = issues.slice(0, 3).join('; ');
+    const more = issues.length > 3 ? ` (and ${issues.length - 3} more)` : '';
+    super(`Invalid map file: ${shown}${more}`);
+    this.name = 'MindMapFormatError';
+    this.issues = issues;
+  }
+}
+
+interface Migration {
+  from: string;
+  to: string;
+  migrate: (data: any) => any;
+}
+
+// Applied in order, each step taking a file from one version to the next
+const MIGRATIONS: Migration[] = [
+  {
+    // 1.0 files had no node positions and no cross-links field
+    from: '1.0',
+    to: '1.1',
+    migrate: data => {
+      const nodes = Array.isArray(data.nodes) ? data.nodes : [];
+      const canLayout = nodes.every((n: any) => n && typeof n === 'object');
+      const needsLayout = nodes.some((n: any) => typeof n?.x !== 'number' || typeof n?.y !== 'number');
+      if (!canLayout || !needsLayout) return { ...data, secondaryLinks: data.secondaryLinks ?? [] };
+
+      // Nodes the layout cannot reach (e.g. on a cycle) stay unplaced and fail validation
+      const placed = new Map(applyAutoLayout(nodes).map(n => [n.id, n]));
+      return {
+        ...data,
+        nodes: nodes.map((n: any) => placed.has(n.id) ? { ...n, x: placed.get(n.id)!.x, y: placed.get(n.id)!.y } : n),
+        secondaryLinks: data.secondaryLinks ?? [],
+      };
+    },
+  },
+  {
+    // 1.2 added the optional "collapsed" and "pinned" node fields; 1.1 files have neither
+    from: '1.1',
+    to: '1.2',
+    migrate: data => data,
+  },
+];
+
+const KNOWN_VERSIONS = [...MIGRATIONS.map(m => m.from), CURRENT_VERSION];
+
+const migrate = (data: any): any => {
+  // Files from before the version field were 1.0
+  let version = data.version ?? '1.0';
+  if (typeof version !== 'string' || !KNOWN_VERSIONS.includes(version)) {
+    throw new MindMapFormatError([`"version" ${JSON.stringify(version)} is not a known format version (this build reads up to ${CURRENT_VERSION})`]);
+  }
+
+  let migrated = data;
+  for (const step of MIGRATIONS) {
+    if (step.from !== version) continue;
+    migrated = step.migrate(migrated);
+    version = step.to;
+  }
+  return { ...migrated, version };
+};
+
+const SHAPES = ['rect', 'rounded', 'pill'];
+const FONT_SIZES = ['sm', 'md', 'lg'];
+const COLOR_FIELDS = ['backgroundColor', 'textColor', 'borderColor'];
+
+const describe = (node: any, index: number) =>
+  typeof node?.label === 'string' && node.label ? `nodes[${index}] ("${node.label}")` : `nodes[${index}]`;
+
+const isFiniteNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+
+const validateNodes = (nodes: any[], issues: string[]) => {
+  const ids = new Map<string, number>();
+  nodes.forEach((node, i) => {
+    if (!node || typeof node !== 'object') {
+      issues.push(`nodes[${i}] is not an object`);
+      return;
+    }
+    const at = describe(node, i);
+    if (typeof node.id !== 'string' || !node.id) {
+      issues.push(`${at}: "id" must be a non-empty string`);
+    } else if (ids.has(node.id)) {
+      issues.push(`${at}: duplicate id "${node.id}" (also used by nodes[${ids.get(node.id)}])`);
+    } else {
+      ids.set(node.id, i);
+    }
+    if (typeof node.label !== 'string') issues.push(`${at}: "label" must be a string`);
+    if (!isFiniteNumber(node.x)) issues.push(`${at}: "x" must be a number`);
+    if (!isFiniteNumber(node.y)) issues.push(`${at}: "y" must be a number`);
+    if (node.description !== undefined && typeof node.description !== 'string') {
+      issues.push(`${at}: "description" must be a string`);
+    }
+    if (node.collapsed !== undefined && typeof node.collapsed !== 'boolean') {
+      issues.push(`${at}: "collapsed" must be true or false`);
+    }
+    if (node.pinned !== undefined && typeof node.pinned !== 'boolean') {
+      issues.push(`${at}: "pinned" must be true or false`);
+    }
+
+    const style = node.style;
+    if (style === undefined) return;
+    if (!style || typeof style !== 'object') {
+      issues.push(`${at}: "style" must be an object`);
+      return;
+    }
+    if (style.shape !== undefined && !SHAPES.includes(style.shape)) {
+      issues.push(`${at}: "style.shape" must be one of ${SHAPES.join(', ')}`);
+    }
+    if (style.fontSize !== undefined && !FONT_SIZES.includes(style.fontSize)) {
+      issues.push(`${at}: "style.fontSize" must be one of ${FONT_SIZES.join(', ')}`);
+    }
+    COLOR_FIELDS.forEach(field => {
+      if (style[field] !== undefined && typeof style[field] !== 'string') {
+        issues.push(`${at}: "style.${field}" must be a color string`);
+      }
+    });
+  });
+
+  // Parent references and cycles, checked once every id is known
+  nodes.forEach((node, i) => {
+    if (!node || typeof node !== 'object') return;
+    const at = describe(node, i);
+    if (node.parentId === null) return;
+    if (typeof node.parentId !== 'string') {
+      issues.push(`${at}: "parentId" must be a node id or null`);
+    } else if (node.parentId === node.id) {
+      issues.push(`${at}: "parentId" points to the node itself`);
+    } else if (!ids.has(node.parentId)) {
+      issues.push(`${at}: "parentId" refers to missing node "${node.parentId}"`);
+    }
+  });
+
+  const parentOf = new Map(nodes.filter(n => n && typeof n === 'object').map(n => [n.id, n.parentId]));
+  const onCycle = new Set<string>();
+  nodes.forEach(node => {
+    if (!node || typeof node !== 'object') return;
+    const seen = new Set<string>([node.id]);
+    let parentId = parentOf.get(node.id);
+    while (typeof parentId === 'string' && parentOf.has(parentId)) {
+      if (seen.has(parentId)) {
+        // parentId is on the cycle; report it once, at that node (self-parents are reported above)
+        if (!onCycle.has(parentId) && parentOf.get(parentId) !== parentId) {
+          const index = ids.get(parentId)!;
+          issues.push(`${describe(nodes[index], index)}: is part of a parentId cycle`);
+          let id: string = parentId;
+          do {
+            onCycle.add(id);
+            id = parentOf.get(id);
+          } while (id !== parentId);
+        }
+        break;
+      }
+      seen.add(parentId);
+      parentId = parentOf.get(parentId);
+    }
+  });
+
+  if (nodes.length > 0 && !nodes.some(n => n?.parentId === null)) {
+    issues.push('"nodes" has no root (a node with "parentId": null)');
+  }
+  return ids;
+};
+
+const validateLinks = (links: any, ids: Map<string, number>, issues: string[]) => {
+  if (links === undefined) return;
+  if (!Array.isArray(links)) {
+    issues.push('"secondaryLinks" must be an array');
+    return;
+  }
+  links.forEach((link, i) => {
+    const at = `secondaryLinks[${i}]`;
+    if (!link || typeof link !== 'object') {
+      issues.push(`${at} is not an object`);
+      return;
+    }
+    ['sourceId', 'targetId'].forEach(field => {
+      if (typeof link[field] !== 'string') issues.push(`${at}: "${field}" must be a node id`);
+      else if (!ids.has(link[field])) issues.push(`${at}: "${field}" refers to missing node "${link[field]}"`);
+    });
+    if (link.type !== undefined && !LINK_TYPES.includes(link.type)) {
+      issues.push(`${at}: "type" must be one of ${LINK_TYPES.join(', ')}`);
+    }
+    if (link.label !== undefined && typeof link.label !== 'string') {
+      issues.push(`${at}: "label" must be a string`);
+    }
+  });
+};
+
+/**
+ * Turns parsed JSON from any supported version into current MindMapData.
+ * Older files are migrated step by step, then the result is checked field by
+ * field; anything wrong throws a MindMapFormatError naming the node or field.
+ */
+export const parseMindMapData = (raw: unknown): MindMapData => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new MindMapFormatError(['the file must contain a JSON object with a "nodes" array']);
+  }
+  if (!Array.isArray((raw as Record<string, unknown>).nodes)) {
+    throw new MindMapFormatError(['"nodes" must be an array']);
+  }
+
+  const data = migrate(raw);
+  const issues: string[] = [];
+  if (data.nodes.length === 0) issues.push('"nodes" is empty');
+  const ids = validateNodes(data.nodes, issues);
+  validateLinks(data.secondaryLinks, ids, issues);
+  if (issues.length > 0) throw new MindMapFormatError(issues);
+
+  return {
+    version: CURRENT_VERSION,
+    nodes: data.nodes as MindMapNode[],
+    secondaryLinks: data.secondaryLinks ?? [],
+  };
+};
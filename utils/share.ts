@@ -0,0 +1,38 @@
+
+import { MindMapData } from '../types';
+import { base64UrlToBytes, bytesToBase64Url } from './base64';
+import { parseMindMapData } from './schema';
+
+// Share links look like `…/#map=<deflated JSON, base64url>`
+const FRAGMENT_PREFIX = '#map=';
+
+// Past this many characters some chat apps and mail clients cut links short
+export const LONG_SHARE_LINK = 8000;
+
+const pipe = (bytes: BlobPart, transform: CompressionStream | DecompressionStream) =>
+  new Response(new Blob([bytes]).stream().pipeThrough(transform));
+
+/** Builds a link to the current page that carries the whole map in its fragment. */
+export const createShareLink = async (data: MindMapData): Promise<string> => {
+  const compressed = await pipe(JSON.stringify(data), new CompressionStream('deflate-raw')).arrayBuffer();
+  const url = new URL(window.location.href);
+  url.search = '';
+  url.hash = FRAGMENT_PREFIX + bytesToBase64Url(new Uint8Array(compressed));
+  return url.toString();
+};
+
+export const isShareFragment = (hash: string) => hash.startsWith(FRAGMENT_PREFIX);
+
+/**
+ * Reads the map out of a share link's fragment, migrating and validating it
+ * like an imported file. Throws on a truncated or tampered link.
+ */
+export const readShareFragment = async (hash: string): Promise<MindMapData> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await pipe(base64UrlToBytes(hash.slice(FRAGMENT_PREFIX.length)), new DecompressionStream('deflate-raw')).text());
+  } catch (e) {
+    throw new Error('This share link is incomplete or damaged. Ask for it to be sent again.');
+  }
+  return parseMindMapData(raw);
+};
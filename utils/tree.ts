@@ -0,0 +1,66 @@
+
+import { MindMapNode } from '../types';
+
+// All nodes below nodeId (not including it)
+export const getDescendantIds = (nodeId: string, list: MindMapNode[]): string[] => {
+  return list.filter(n => n.parentId === nodeId).reduce((acc, child) => {
+      return [...acc, child.id, ...getDescendantIds(child.id, list)];
+  }, [] as string[]);
+};
+
+// The ids not below another id in the list; moving or copying those carries the rest along
+export const topmostOf = (ids: string[], list: MindMapNode[]): string[] => {
+  const parentOf = new Map(list.map(n => [n.id, n.parentId]));
+  return ids.filter(id => {
+      for (let p = parentOf.get(id); p; p = parentOf.get(p)) {
+          if (ids.includes(p)) return false;
+      }
+      return true;
+  });
+};
+
+const childrenByParent = (list: MindMapNode[]) => {
+  const children = new Map<string, MindMapNode[]>();
+  list.forEach(n => {
+      if (n.parentId !== null) children.set(n.parentId, [...(children.get(n.parentId) || []), n]);
+  });
+  return children;
+};
+
+// Nodes inside a collapsed branch; the collapsed node itself stays visible
+export const getHiddenIds = (list: MindMapNode[]): Set<string> => {
+  const children = childrenByParent(list);
+  const hidden = new Set<string>();
+  const hide = (id: string) => (children.get(id) || []).forEach(child => {
+      if (hidden.has(child.id)) return;
+      hidden.add(child.id);
+      hide(child.id);
+  });
+  list.filter(n => n.collapsed).forEach(n => hide(n.id));
+  return hidden;
+};
+
+// Levels below the root: 0 for roots, 1 for their children, and so on
+export const getDepths = (list: MindMapNode[]): Map<string, number> => {
+  const children = childrenByParent(list);
+  const depths = new Map<string, number>();
+  const visit = (node: MindMapNode, depth: number) => {
+      if (depths.has(node.id)) return;
+      depths.set(node.id, depth);
+      (children.get(node.id) || []).forEach(child => visit(child, depth + 1));
+  };
+  list.filter(n => n.parentId === null).forEach(root => visit(root, 0));
+  return depths;
+};
+
+// Sets or clears the collapsed flag, leaving no `collapsed: false` behind in saved maps
+export const withCollapsed = (node: MindMapNode, collapsed: boolean): MindMapNode => {
+  const { collapsed: _, ...rest } = node;
+  return collapsed ? { ...rest, collapsed: true } : rest;
+};
+
+// Sets or clears the pinned flag, the same way
+export const withPinned = (node: MindMapNode, pinned: boolean): MindMapNode => {
+  const { pinned: _, ...rest } = node;
+  return pinned ? { ...rest, pinned: true } : rest;
+};
@@ -0,0 +1,23 @@
+
+// Escapes text for use in XML content or a double-quoted attribute; newlines survive in attributes
+export const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '&#10;');
+
+/** Parses an XML document, throwing with `name` in the message if it is malformed. */
+export const parseXml = (text: string, name: string): Document => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  const error = doc.querySelector('parsererror');
+  if (error) {
+    throw new Error(`${name} is not valid XML: ${error.textContent?.trim().split('\n')[0] || 'parse error'}`);
+  }
+  return doc;
+};
+
+// Direct children with the given tag name (querySelector would also match deeper descendants)
+export const childElements = (parent: Element, tagName: string): Element[] =>
+  Array.from(parent.children).filter(child => child.tagName === tagName);